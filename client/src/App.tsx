@@ -4,9 +4,15 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import TranscriptionTool from "@/pages/TranscriptionTool";
 import About from "@/pages/About";
+import History from "@/pages/History";
+import TranscriptDetail from "@/pages/TranscriptDetail";
+import Settings from "@/pages/Settings";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/AuthPage";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
@@ -14,7 +20,11 @@ function Router() {
       <Header />
       <main className="flex-1 py-8 px-4 sm:px-6 lg:px-8 bg-slate-50">
         <Switch>
-          <Route path="/" component={TranscriptionTool} />
+          <ProtectedRoute path="/" component={TranscriptionTool} />
+          <ProtectedRoute path="/history" component={History} />
+          <ProtectedRoute path="/history/:id" component={TranscriptDetail} />
+          <ProtectedRoute path="/settings" component={Settings} />
+          <Route path="/auth" component={AuthPage} />
           <Route path="/about" component={About} />
           <Route component={NotFound} />
         </Switch>
@@ -27,8 +37,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
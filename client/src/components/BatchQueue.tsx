@@ -0,0 +1,98 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Check, Clock, Download, FileAudio, X } from "lucide-react";
+import type { BatchItem, BatchItemStatus } from "@/hooks/useBatchTranscription";
+import { formatFileSize } from "@/lib/fileUtils";
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  transcriptIds: number[];
+}
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  waiting: "Waiting",
+  uploading: "Uploading",
+  queued: "Queued",
+  processing: "Transcribing",
+  done: "Done",
+  failed: "Failed",
+};
+
+const StatusIcon = ({ status }: { status: BatchItemStatus }) => {
+  if (status === "done") return <Check className="h-5 w-5 text-green-500" />;
+  if (status === "failed") return <X className="h-5 w-5 text-red-500" />;
+  if (status === "waiting" || status === "queued") return <Clock className="h-5 w-5 text-slate-400" />;
+  return <span className="block h-5 w-5 rounded-full border-2 border-t-transparent border-primary animate-spin"></span>;
+};
+
+/**
+ * Per-file progress of a batch, with a ZIP download of every finished transcript
+ */
+const BatchQueue = ({ items, isRunning, transcriptIds }: BatchQueueProps) => {
+  const doneCount = items.filter((item) => item.status === "done").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+  const archiveUrl = `/api/transcripts/archive?ids=${transcriptIds.join(",")}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-700">
+          <span className="font-medium text-slate-900">{doneCount}</span> of {items.length} files transcribed
+          {failedCount > 0 && <span className="text-red-600">, {failedCount} failed</span>}
+        </p>
+        {isRunning && <p className="text-xs text-slate-500">Keep this page open until the batch finishes</p>}
+      </div>
+
+      <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md">
+        {items.map((item) => (
+          <li key={item.key} className="p-4 flex items-start space-x-3">
+            <FileAudio className="h-6 w-6 text-slate-400 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-slate-900 truncate">{item.file.name}</p>
+                <span className="ml-3 text-xs font-medium text-slate-500 flex-shrink-0">{statusLabels[item.status]}</span>
+              </div>
+              <p className="text-xs text-slate-500">{formatFileSize(item.file.size)}</p>
+
+              {(item.status === "uploading" || item.status === "processing") && (
+                <Progress value={item.progress} className="w-full h-1.5 mt-2" />
+              )}
+              {item.message && item.status !== "done" && item.status !== "failed" && (
+                <p className="text-xs text-slate-500 mt-1">{item.message}</p>
+              )}
+              {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+              {item.status === "done" && item.transcriptId && (
+                <Link href={`/history/${item.transcriptId}`}>
+                  <a className="text-xs text-primary hover:text-primary/80 font-medium">Open transcript</a>
+                </Link>
+              )}
+            </div>
+            <div className="flex-shrink-0 mt-0.5">
+              <StatusIcon status={item.status} />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end">
+        {!isRunning && transcriptIds.length > 0 ? (
+          <Button asChild>
+            <a href={archiveUrl} download>
+              <Download className="h-4 w-4 mr-2" />
+              Download All as ZIP
+            </a>
+          </Button>
+        ) : (
+          <Button disabled className="bg-slate-300 cursor-not-allowed">
+            <Download className="h-4 w-4 mr-2" />
+            Download All as ZIP
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { SubtitleFormat } from "@shared/subtitles";
+
+export type DownloadFormat = "txt" | SubtitleFormat;
+
+interface DownloadMenuProps {
+  onDownload: (format: DownloadFormat) => void;
+  // Subtitles need segment timings
+  subtitlesAvailable: boolean;
+}
+
+/**
+ * Download button offering the transcript as plain text or subtitles
+ */
+const DownloadMenu = ({ onDownload, subtitlesAvailable }: DownloadMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" className="h-8">
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => onDownload("txt")}>
+          Text (.txt)
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!subtitlesAvailable} onSelect={() => onDownload("srt")}>
+          Subtitles (.srt)
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!subtitlesAvailable} onSelect={() => onDownload("vtt")}>
+          Subtitles (.vtt)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DownloadMenu;
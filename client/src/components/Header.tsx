@@ -1,8 +1,10 @@
 import { Link, useLocation } from "wouter";
-import { Mic } from "lucide-react";
+import { Mic, LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 const Header = () => {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
   
   return (
     <header className="bg-white shadow-sm">
@@ -14,12 +16,37 @@ const Header = () => {
               <h1 className="text-xl font-semibold text-slate-900">Audio Transcription Tool</h1>
             </div>
           </Link>
-          <nav>
+          <nav className="flex items-center space-x-6">
+            {user && (
+              <Link href="/history">
+                <a className={`text-sm font-medium ${location.startsWith('/history') ? 'text-primary' : 'text-slate-600 hover:text-primary'}`}>
+                  History
+                </a>
+              </Link>
+            )}
+            {user && (
+              <Link href="/settings">
+                <a className={`text-sm font-medium ${location === '/settings' ? 'text-primary' : 'text-slate-600 hover:text-primary'}`}>
+                  Settings
+                </a>
+              </Link>
+            )}
             <Link href="/about">
               <a className={`text-sm font-medium ${location === '/about' ? 'text-primary' : 'text-slate-600 hover:text-primary'}`}>
                 About
               </a>
             </Link>
+            {user && (
+              <button
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="flex items-center text-sm font-medium text-slate-600 hover:text-primary"
+                title={`Signed in as ${user.username}`}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Log out
+              </button>
+            )}
           </nav>
         </div>
       </div>
@@ -0,0 +1,139 @@
+import { useEffect, useRef } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Mic, Pause, Play, Square, Radio } from "lucide-react";
+import useLiveTranscription from "@/hooks/useLiveTranscription";
+import { formatDuration } from "@/lib/fileUtils";
+import type { TranscriptionOptions } from "@shared/schema";
+
+interface LiveTranscriberProps {
+  // Spoken language and whether to translate to English
+  options: TranscriptionOptions;
+}
+
+/**
+ * Record from the microphone while the transcript appears as people speak
+ * The finished recording is saved to history like any other transcript
+ */
+const LiveTranscriber = ({ options }: LiveTranscriberProps) => {
+  const {
+    status,
+    segments,
+    partialText,
+    transcriptId,
+    error,
+    elapsedSeconds,
+    level,
+    isPaused,
+    start,
+    pause,
+    resume,
+    stop,
+  } = useLiveTranscription();
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest text in view
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ block: "nearest" });
+  }, [segments, partialText]);
+
+  const isRecording = status === "live";
+
+  return (
+    <div className="space-y-6">
+      <div className="border-2 border-dashed border-slate-200 rounded-lg p-6 flex flex-col items-center justify-center">
+        <div className="flex items-center space-x-3 mb-3">
+          <Radio className={`h-5 w-5 ${isRecording && !isPaused ? "text-red-500 animate-pulse" : "text-slate-400"}`} />
+          <p className="text-2xl font-mono font-medium text-slate-900">{formatDuration(elapsedSeconds)}</p>
+        </div>
+
+        {isRecording && (
+          <div className="w-full max-w-xs h-2 bg-slate-200 rounded-full overflow-hidden mb-4" aria-label="Input level">
+            <div
+              className="h-full bg-green-500 transition-[width] duration-75"
+              style={{ width: `${Math.round((isPaused ? 0 : level) * 100)}%` }}
+            />
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          {(status === "idle" || status === "saved" || status === "failed") && (
+            <Button onClick={() => start(options)}>
+              <Mic className="h-4 w-4 mr-2" />
+              {status === "idle" ? "Start Live Transcription" : "Start Again"}
+            </Button>
+          )}
+          {status === "connecting" && (
+            <Button disabled>Connecting...</Button>
+          )}
+          {isRecording && !isPaused && (
+            <Button variant="outline" onClick={pause}>
+              <Pause className="h-4 w-4 mr-2" />
+              Pause
+            </Button>
+          )}
+          {isRecording && isPaused && (
+            <Button variant="outline" onClick={resume}>
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {isRecording && (
+            <Button variant="destructive" onClick={stop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop and Save
+            </Button>
+          )}
+          {status === "finishing" && (
+            <Button disabled>
+              <span className="h-4 w-4 mr-2 rounded-full border-2 border-t-transparent border-white animate-spin"></span>
+              Finishing transcript...
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {(segments.length > 0 || partialText || isRecording) && (
+        <div className="border border-slate-200 rounded-md h-64 overflow-y-auto p-4 bg-white">
+          {segments.length === 0 && !partialText && (
+            <p className="text-sm text-slate-400">Listening... text appears a few seconds after it is spoken.</p>
+          )}
+          <div className="space-y-2">
+            {segments.map((segment, index) => (
+              <div key={index} className="flex text-sm">
+                <span className="w-16 flex-shrink-0 font-mono text-xs text-slate-400 pt-0.5">
+                  {formatDuration(segment.start)}
+                </span>
+                <p className="text-slate-700">{segment.text}</p>
+              </div>
+            ))}
+            {partialText && (
+              <div className="flex text-sm">
+                <span className="w-16 flex-shrink-0"></span>
+                <p className="text-slate-400 italic">{partialText}</p>
+              </div>
+            )}
+          </div>
+          <div ref={transcriptEndRef} />
+        </div>
+      )}
+
+      {status === "saved" && transcriptId && (
+        <div className="rounded-md bg-green-50 p-4 flex items-center justify-between">
+          <p className="text-sm text-green-700">The transcript has been saved to your history.</p>
+          <Link href={`/history/${transcriptId}`}>
+            <a className="text-sm text-primary hover:text-primary/80 font-medium">Open transcript</a>
+          </Link>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTranscriber;
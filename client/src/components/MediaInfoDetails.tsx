@@ -0,0 +1,36 @@
+import { formatDuration } from "@/lib/fileUtils";
+import type { MediaInfo } from "@shared/schema";
+
+interface MediaInfoDetailsProps {
+  media: MediaInfo;
+}
+
+function describeChannels(channels: number): string {
+  if (channels === 1) return "Mono";
+  if (channels === 2) return "Stereo";
+  return `${channels} channels`;
+}
+
+/**
+ * What the server found in an uploaded file: codec, sample rate, channels, bitrate and length
+ */
+const MediaInfoDetails = ({ media }: MediaInfoDetailsProps) => {
+  const details = [
+    media.codec.toUpperCase(),
+    media.sampleRate ? `${(media.sampleRate / 1000).toFixed(1)} kHz` : null,
+    media.channels ? describeChannels(media.channels) : null,
+    media.bitRate ? `${Math.round(media.bitRate / 1000)} kbps` : null,
+    formatDuration(media.duration),
+    media.hasVideo ? "Video, audio track only" : null,
+  ].filter((detail): detail is string => detail !== null);
+
+  return (
+    <p className="text-xs text-slate-500 space-x-3">
+      {details.map((detail) => (
+        <span key={detail}>{detail}</span>
+      ))}
+    </p>
+  );
+};
+
+export default MediaInfoDetails;
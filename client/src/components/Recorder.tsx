@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import { Mic, Pause, Play, RotateCcw, Square } from "lucide-react";
+import useRecorder from "@/hooks/useRecorder";
+import { formatDuration, formatFileSize } from "@/lib/fileUtils";
+
+interface RecorderProps {
+  // Called with the finished take when the user chooses to transcribe it
+  onUseRecording: (file: File) => void;
+}
+
+/**
+ * Microphone recorder with a timer, level meter, pause/resume and a preview of the take
+ */
+const Recorder = ({ onUseRecording }: RecorderProps) => {
+  const {
+    status,
+    elapsedSeconds,
+    level,
+    recording,
+    previewUrl,
+    error,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  } = useRecorder();
+
+  const isActive = status === "recording" || status === "paused";
+
+  return (
+    <div className="space-y-6">
+      <div className="border-2 border-dashed border-slate-200 rounded-lg p-8 flex flex-col items-center justify-center">
+        <div
+          className={`h-16 w-16 rounded-full flex items-center justify-center mb-3 ${
+            status === "recording" ? "bg-red-100" : "bg-slate-100"
+          }`}
+        >
+          <Mic className={`h-8 w-8 ${status === "recording" ? "text-red-500 animate-pulse" : "text-slate-400"}`} />
+        </div>
+
+        <p className="text-2xl font-mono font-medium text-slate-900 mb-3">{formatDuration(elapsedSeconds)}</p>
+
+        {isActive && (
+          <div className="w-full max-w-xs h-2 bg-slate-200 rounded-full overflow-hidden mb-4" aria-label="Input level">
+            <div
+              className="h-full bg-green-500 transition-[width] duration-75"
+              style={{ width: `${Math.round((status === "paused" ? 0 : level) * 100)}%` }}
+            />
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          {status === "idle" && (
+            <Button onClick={start}>
+              <Mic className="h-4 w-4 mr-2" />
+              Start Recording
+            </Button>
+          )}
+          {status === "recording" && (
+            <Button variant="outline" onClick={pause}>
+              <Pause className="h-4 w-4 mr-2" />
+              Pause
+            </Button>
+          )}
+          {status === "paused" && (
+            <Button variant="outline" onClick={resume}>
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+          {isActive && (
+            <Button variant="destructive" onClick={stop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          )}
+          {status === "stopped" && (
+            <Button variant="outline" onClick={discard}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Record Again
+            </Button>
+          )}
+        </div>
+
+        {status === "idle" && (
+          <p className="text-xs text-slate-500 mt-3">Your browser will ask for permission to use the microphone</p>
+        )}
+      </div>
+
+      {recording && previewUrl && (
+        <div className="bg-slate-50 p-4 rounded-md space-y-3">
+          <div>
+            <p className="text-sm font-medium text-slate-900 truncate">{recording.name}</p>
+            <p className="text-xs text-slate-500">{formatFileSize(recording.size)}</p>
+          </div>
+          <audio controls src={previewUrl} className="w-full" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => recording && onUseRecording(recording)}
+          disabled={!recording}
+          className={!recording ? "bg-slate-300 cursor-not-allowed" : ""}
+        >
+          Continue to Transcription
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Recorder;
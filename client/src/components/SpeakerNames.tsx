@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { speakersOf } from "@shared/speakers";
+import type { RenameSpeaker, TranscriptSegment } from "@shared/schema";
+
+interface SpeakerNamesProps {
+  transcriptId: number;
+  segments?: TranscriptSegment[] | null;
+}
+
+/**
+ * Rename the speakers diarization found, e.g. "Speaker 1" to "Priya"
+ * The new name replaces the old one on every segment of the transcript
+ */
+const SpeakerNames = ({ transcriptId, segments }: SpeakerNamesProps) => {
+  // Names being typed, keyed by the current speaker label
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const speakers = speakersOf(segments);
+
+  const renameMutation = useMutation({
+    mutationFn: async (rename: RenameSpeaker) => {
+      await apiRequest("PATCH", `/api/transcripts/${transcriptId}/speakers`, rename);
+    },
+    onSuccess: (_, { from }) => {
+      setDrafts(({ [from]: _renamed, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts", transcriptId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Speaker not renamed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (speakers.length === 0) return null;
+
+  const rename = (event: React.FormEvent<HTMLFormElement>, from: string) => {
+    event.preventDefault();
+    const to = drafts[from]?.trim();
+    if (to && to !== from) {
+      renameMutation.mutate({ from, to });
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-slate-50 p-4 rounded-md space-y-3">
+      <h4 className="flex items-center text-sm font-medium text-slate-900">
+        <Users className="h-4 w-4 mr-2" />
+        Speakers
+      </h4>
+      {speakers.map((speaker) => {
+        const draft = drafts[speaker] ?? speaker;
+        return (
+          <form key={speaker} onSubmit={(e) => rename(e, speaker)} className="flex space-x-2">
+            <Input
+              value={draft}
+              maxLength={100}
+              onChange={(e) => setDrafts({ ...drafts, [speaker]: e.target.value })}
+              aria-label={`Name for ${speaker}`}
+              className="bg-white"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!draft.trim() || draft.trim() === speaker || renameMutation.isPending}
+            >
+              Rename
+            </Button>
+          </form>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SpeakerNames;
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LayoutTemplate, Pencil, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  CustomSummaryTemplate,
+  InsertCustomSummaryTemplate,
+  SummaryField,
+  SummaryFieldType,
+} from "@shared/schema";
+
+export const SUMMARY_TEMPLATES_KEY = ["/api/summary-templates"];
+
+const fieldTypeNames: Record<SummaryFieldType, string> = {
+  string: "Text",
+  stringList: "List of text",
+  objectList: "List of objects",
+};
+
+// Fields as edited in the form; object properties are typed as one comma-separated list
+interface FieldForm {
+  name: string;
+  type: SummaryFieldType;
+  description: string;
+  properties: string;
+}
+
+const emptyField: FieldForm = { name: "", type: "stringList", description: "", properties: "" };
+
+const emptyForm = { name: "", instructions: "", fields: [emptyField] };
+
+function toField(field: FieldForm): SummaryField {
+  const properties = field.properties
+    .split(",")
+    .map((property) => property.trim())
+    .filter(Boolean);
+  return {
+    name: field.name.trim(),
+    type: field.type,
+    description: field.description.trim() || undefined,
+    properties: field.type === "objectList" ? properties : undefined,
+  };
+}
+
+function toFieldForm(field: SummaryField): FieldForm {
+  return {
+    name: field.name,
+    type: field.type,
+    description: field.description ?? "",
+    properties: field.properties?.join(", ") ?? "",
+  };
+}
+
+/**
+ * Create, edit and delete the user's own summary templates
+ */
+const SummaryTemplateSettings = () => {
+  const [form, setForm] = useState(emptyForm);
+  // Id of the template being edited, if the form isn't adding a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: templates, isLoading, error } = useQuery({
+    queryKey: SUMMARY_TEMPLATES_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/summary-templates");
+      return res.json() as Promise<CustomSummaryTemplate[]>;
+    },
+  });
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Summary template not saved",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: InsertCustomSummaryTemplate) => {
+      const res = editingId === null
+        ? await apiRequest("POST", "/api/summary-templates", template)
+        : await apiRequest("PATCH", `/api/summary-templates/${editingId}`, template);
+      return res.json() as Promise<CustomSummaryTemplate>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SUMMARY_TEMPLATES_KEY });
+      resetForm();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/summary-templates/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: SUMMARY_TEMPLATES_KEY });
+      if (id === editingId) {
+        resetForm();
+      }
+    },
+    onError,
+  });
+
+  const updateField = (index: number, changes: Partial<FieldForm>) => {
+    setForm({
+      ...form,
+      fields: form.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    });
+  };
+
+  const removeField = (index: number) => {
+    setForm({ ...form, fields: form.fields.filter((_, i) => i !== index) });
+  };
+
+  const canSave = form.name.trim() !== "" && form.fields.some((field) => field.name.trim());
+
+  const submit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSave) return;
+    saveMutation.mutate({
+      name: form.name.trim(),
+      instructions: form.instructions.trim(),
+      // Rows left without a name are ignored
+      fields: form.fields.filter((field) => field.name.trim()).map(toField),
+    });
+  };
+
+  const edit = (template: CustomSummaryTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      instructions: template.instructions,
+      fields: template.fields.map(toFieldForm),
+    });
+  };
+
+  return (
+    <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-5 border-b border-slate-200 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Summary Templates</h2>
+          <p className="text-sm text-slate-600 mt-1">
+            Your own summary layouts, offered next to the built-in ones on the Summary tab. Describe what the
+            summary should focus on and list the fields it should fill in.
+          </p>
+        </div>
+
+        <form onSubmit={submit} className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="template-name" className="text-xs text-slate-600">Name</Label>
+            <Input
+              id="template-name"
+              value={form.name}
+              maxLength={80}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Sprint retrospective"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-instructions" className="text-xs text-slate-600">Instructions</Label>
+            <Textarea
+              id="template-instructions"
+              value={form.instructions}
+              maxLength={2000}
+              rows={3}
+              onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+              placeholder="Focus on what went well, what didn't, and what the team will change next sprint."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-slate-600">Fields</Label>
+            {form.fields.map((field, index) => (
+              <div key={index} className="rounded-md border border-slate-200 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={field.name}
+                    maxLength={60}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    placeholder="Field name, e.g. Went well"
+                    aria-label="Field name"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(type) => updateField(index, { type: type as SummaryFieldType })}
+                  >
+                    <SelectTrigger className="w-44 bg-white" aria-label="Field type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(fieldTypeNames).map(([type, name]) => (
+                        <SelectItem key={type} value={type}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeField(index)}
+                    disabled={form.fields.length === 1}
+                    title="Remove field"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input
+                  value={field.description}
+                  maxLength={300}
+                  onChange={(e) => updateField(index, { description: e.target.value })}
+                  placeholder="What it should contain (optional)"
+                  aria-label="Field description"
+                />
+                {field.type === "objectList" && (
+                  <Input
+                    value={field.properties}
+                    onChange={(e) => updateField(index, { properties: e.target.value })}
+                    placeholder="Properties of each item (comma-separated), e.g. change, owner"
+                    aria-label="Field properties"
+                  />
+                )}
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm({ ...form, fields: [...form.fields, emptyField] })}
+              disabled={form.fields.length >= 20}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {editingId !== null && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={!canSave || saveMutation.isPending}>
+              {editingId === null ? "Add Template" : "Save Template"}
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      <div className="divide-y divide-slate-200">
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
+            <p className="text-sm text-slate-700">Loading summary templates...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-6">
+            <p className="text-sm text-red-700">{(error as Error).message}</p>
+          </div>
+        )}
+
+        {templates && templates.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-48">
+            <p className="text-sm text-slate-700">No summary templates yet.</p>
+          </div>
+        )}
+
+        {templates?.map((template) => (
+          <div key={template.id} className="px-6 py-4 flex items-start space-x-3">
+            <LayoutTemplate className="h-6 w-6 text-slate-400 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-slate-900">{template.name}</p>
+              <p className="text-xs text-slate-500 mt-1 truncate">
+                {template.fields.map((field) => field.name).join(", ")}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => edit(template)} title="Edit template">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(template.id)}
+              disabled={deleteMutation.isPending}
+              title="Delete template"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default SummaryTemplateSettings;
@@ -0,0 +1,182 @@
+import type { ReactNode } from "react";
+import type { CustomSummary, TemplatedSummary } from "@shared/summaryTemplates";
+
+interface SummaryViewProps {
+  summary: TemplatedSummary;
+}
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div>
+    <h4 className="text-sm font-medium text-slate-900 mb-2">{title}</h4>
+    {children}
+  </div>
+);
+
+// Bulleted list, left out entirely when there is nothing in it
+const ListSection = ({ title, items }: { title: string; items: string[] }) =>
+  items.length > 0 ? (
+    <Section title={title}>
+      <ul className="list-disc pl-5 space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className="text-sm text-slate-700">{item}</li>
+        ))}
+      </ul>
+    </Section>
+  ) : null;
+
+// Titled cards, e.g. topics or concepts with their explanations
+const CardSection = ({ title, cards }: { title: string; cards: { heading: string; body: string }[] }) =>
+  cards.length > 0 ? (
+    <Section title={title}>
+      <div className="space-y-2">
+        {cards.map((card, index) => (
+          <div key={index} className="bg-slate-50 p-2 rounded-md">
+            <p className="font-medium text-sm text-slate-900">{card.heading}</p>
+            <p className="text-sm text-slate-700">{card.body}</p>
+          </div>
+        ))}
+      </div>
+    </Section>
+  ) : null;
+
+const Paragraph = ({ text }: { text: string }) =>
+  text ? <p className="text-sm text-slate-700">{text}</p> : null;
+
+// Values come from a model, so anything that isn't the expected type is skipped
+const asText = (value: unknown): string => (typeof value === "string" ? value : "");
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * A custom template's summary, one section per field in the template's order
+ * Objects are shown as cards headed by their first property
+ */
+const CustomSummaryView = ({ summary }: { summary: CustomSummary }) => (
+  <div className="space-y-4">
+    {summary.fields.map((field) => {
+      const value = summary.values[field.name];
+      switch (field.type) {
+        case "string":
+          return asText(value) ? (
+            <Section key={field.name} title={field.name}>
+              <Paragraph text={asText(value)} />
+            </Section>
+          ) : null;
+        case "stringList":
+          return <ListSection key={field.name} title={field.name} items={asList(value).map(asText).filter(Boolean)} />;
+        case "objectList": {
+          const [first, ...rest] = field.properties ?? [];
+          const items = asList(value).filter((item): item is Record<string, unknown> => !!item && typeof item === "object");
+          return (
+            <CardSection
+              key={field.name}
+              title={field.name}
+              cards={items.map((item) => ({
+                heading: asText(item[first]),
+                body: rest
+                  .filter((property) => asText(item[property]))
+                  .map((property) => `${property}: ${asText(item[property])}`)
+                  .join(" · "),
+              }))}
+            />
+          );
+        }
+      }
+    })}
+  </div>
+);
+
+/**
+ * The sections of a summary, laid out for the template it was made with
+ */
+const SummaryView = ({ summary }: SummaryViewProps) => {
+  switch (summary.template) {
+    case "general":
+      return (
+        <div className="space-y-4">
+          <ListSection title="Key Points" items={summary.keyPoints} />
+          <CardSection
+            title="Topics Covered"
+            cards={summary.topics.map((topic) => ({ heading: topic.topic, body: topic.description }))}
+          />
+          <ListSection title="Action Items" items={summary.actionItems ?? []} />
+        </div>
+      );
+
+    case "meeting":
+      return (
+        <div className="space-y-4">
+          <Paragraph text={summary.overview} />
+          <ListSection title="Attendees" items={summary.attendees} />
+          <ListSection title="Decisions" items={summary.decisions} />
+          {summary.actionItems.length > 0 && (
+            <Section title="Action Items">
+              <ul className="space-y-1">
+                {summary.actionItems.map((item, index) => (
+                  <li key={index} className="text-sm text-slate-700">
+                    {item.task}
+                    {(item.owner || item.deadline) && (
+                      <span className="block text-xs text-slate-500">
+                        {[item.owner && `Owner: ${item.owner}`, item.deadline && `Due: ${item.deadline}`]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+        </div>
+      );
+
+    case "interview":
+      return (
+        <div className="space-y-4">
+          <Paragraph text={summary.overview} />
+          <ListSection title="Participants" items={summary.participants} />
+          <CardSection
+            title="Questions and Answers"
+            cards={summary.qa.map((pair) => ({ heading: pair.question, body: pair.answer }))}
+          />
+          <ListSection title="Highlights" items={summary.highlights} />
+        </div>
+      );
+
+    case "lecture":
+      return (
+        <div className="space-y-4">
+          <Paragraph text={summary.overview} />
+          <CardSection
+            title="Key Concepts"
+            cards={summary.concepts.map((concept) => ({ heading: concept.name, body: concept.explanation }))}
+          />
+          <CardSection
+            title="Definitions"
+            cards={summary.definitions.map((definition) => ({ heading: definition.term, body: definition.definition }))}
+          />
+          <ListSection title="Review Questions" items={summary.reviewQuestions} />
+        </div>
+      );
+
+    case "podcast":
+      return (
+        <div className="space-y-4">
+          {summary.headline && <p className="text-sm font-medium text-slate-900">{summary.headline}</p>}
+          <Paragraph text={summary.episodeSummary} />
+          <ListSection title="Guests" items={summary.guests} />
+          <CardSection
+            title="Chapters"
+            cards={summary.chapters.map((chapter) => ({ heading: chapter.title, body: chapter.summary }))}
+          />
+          <ListSection title="Quotes" items={summary.quotes} />
+          <ListSection title="Mentioned" items={summary.mentions} />
+        </div>
+      );
+
+    case "custom":
+      return <CustomSummaryView summary={summary} />;
+  }
+};
+
+export default SummaryView;
@@ -0,0 +1,24 @@
+import { languageName } from "@shared/languages";
+import type { TranscriptionMode } from "@shared/schema";
+
+interface TranscriptLanguageProps {
+  language?: string | null;
+  mode?: TranscriptionMode;
+}
+
+/**
+ * Spoken language of a transcript, or that it was translated to English
+ */
+const TranscriptLanguage = ({ language, mode }: TranscriptLanguageProps) => {
+  if (mode === "translate") {
+    return (
+      <span className="font-medium text-primary">
+        {language ? `Translated from ${languageName(language)} to English` : "Translated to English"}
+      </span>
+    );
+  }
+
+  return language ? <span>{languageName(language)}</span> : null;
+};
+
+export default TranscriptLanguage;
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Play, Send, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/fileUtils";
+import type { AskQuestion, Citation, TranscriptQuestion } from "@shared/schema";
+
+interface TranscriptQAProps {
+  transcriptId: number;
+  // Shows the cited part of the transcript, given its times in seconds
+  onJumpTo: (start: number, end: number) => void;
+}
+
+const CitationLink = ({ citation, onJumpTo }: { citation: Citation; onJumpTo: TranscriptQAProps["onJumpTo"] }) => (
+  <div className="flex items-start text-xs text-slate-500">
+    {/* Transcripts without segments have no times to jump to */}
+    {citation.start !== undefined ? (
+      <button
+        type="button"
+        onClick={() => onJumpTo(citation.start!, citation.end ?? citation.start!)}
+        className="flex-shrink-0 inline-flex items-center font-mono text-primary hover:text-primary/80 mr-2"
+        title="Show in transcript"
+      >
+        <Play className="h-3 w-3 mr-1" />
+        {formatDuration(citation.start)}
+      </button>
+    ) : null}
+    <span className="truncate" title={citation.text}>
+      {citation.speaker && <span className="font-medium text-slate-600">{citation.speaker}: </span>}
+      {citation.text}
+    </span>
+  </div>
+);
+
+/**
+ * Ask questions about a transcript and read the answers with the parts of
+ * the transcript they are based on
+ * The conversation is saved, so earlier questions are shown when the
+ * transcript is reopened and follow-up questions can refer back to them
+ */
+const TranscriptQA = ({ transcriptId, onJumpTo }: TranscriptQAProps) => {
+  const [question, setQuestion] = useState("");
+  const { toast } = useToast();
+  const endRef = useRef<HTMLDivElement>(null);
+  const questionsKey = ["/api/transcripts", transcriptId, "questions"];
+
+  const { data: questions, isLoading, error } = useQuery({
+    queryKey: questionsKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/transcripts/${transcriptId}/questions`);
+      return res.json() as Promise<TranscriptQuestion[]>;
+    },
+  });
+
+  const askMutation = useMutation({
+    mutationFn: async (ask: AskQuestion) => {
+      const res = await apiRequest("POST", `/api/transcripts/${transcriptId}/ask`, ask);
+      return res.json() as Promise<TranscriptQuestion>;
+    },
+    onSuccess: (asked) => {
+      queryClient.setQueryData<TranscriptQuestion[]>(questionsKey, (previous) => [...(previous ?? []), asked]);
+      setQuestion("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Question not answered",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/transcripts/${transcriptId}/questions`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<TranscriptQuestion[]>(questionsKey, []);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Conversation not cleared",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Keep the latest answer, or the question waiting for one, in view
+  const count = questions?.length ?? 0;
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [count, askMutation.isPending]);
+
+  const ask = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const text = question.trim();
+    if (text && !askMutation.isPending) {
+      askMutation.mutate({ question: text });
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 border-t-0 rounded-b-md h-64 flex flex-col bg-white">
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isLoading && (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent"></div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-700">{(error as Error).message}</p>}
+
+        {questions && questions.length === 0 && !askMutation.isPending && (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm text-slate-500 text-center">
+              Ask anything about this transcript, e.g. "What did they say about the budget?"
+            </p>
+          </div>
+        )}
+
+        {questions && questions.length > 0 && (
+          <div className="flex justify-end">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-slate-500"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending || askMutation.isPending}
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-1" />
+              Clear conversation
+            </Button>
+          </div>
+        )}
+
+        {questions?.map((entry) => (
+          <div key={entry.id} className="space-y-2">
+            <p className="text-sm font-medium text-slate-900">{entry.question}</p>
+            <p className="text-sm text-slate-700 whitespace-pre-line">{entry.answer}</p>
+            {entry.citations.length > 0 && (
+              <div className="bg-slate-50 rounded-md p-2 space-y-1">
+                {entry.citations.map((citation, index) => (
+                  <CitationLink key={index} citation={citation} onJumpTo={onJumpTo} />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {askMutation.isPending && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-900">{askMutation.variables.question}</p>
+            <div className="flex items-center text-sm text-slate-500">
+              <span className="mr-2 h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin"></span>
+              Searching the transcript...
+            </div>
+          </div>
+        )}
+
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={ask} className="border-t border-slate-200 p-3 flex space-x-2">
+        <Input
+          value={question}
+          maxLength={1000}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question about the transcript"
+          aria-label="Question"
+        />
+        <Button type="submit" disabled={!question.trim() || askMutation.isPending}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TranscriptQA;
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FileText, MessageCircleQuestion, MessageSquareText, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SummaryView from "@/components/SummaryView";
+import TranscriptQA from "@/components/TranscriptQA";
+import { SUMMARY_TEMPLATES_KEY } from "@/components/SummaryTemplateSettings";
+import type { SummaryProgress, SummaryTemplateChoice } from "@/hooks/useSummary";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/fileUtils";
+import type { CustomSummaryTemplate, TranscriptSegment } from "@shared/schema";
+import { summaryTemplates, type SummaryTemplateId, type TemplatedSummary } from "@shared/summaryTemplates";
+
+// Picker values: a built-in template's id, or "custom:<id>" for the user's own
+function pickerValue(summary: TemplatedSummary): string {
+  return summary.template === "custom" ? `custom:${summary.templateId}` : summary.template;
+}
+
+function toChoice(value: string): SummaryTemplateChoice {
+  return value.startsWith("custom:")
+    ? { customTemplateId: Number(value.slice("custom:".length)) }
+    : (value as SummaryTemplateId);
+}
+
+type TranscriptTab = "transcript" | "summary" | "ask";
+
+interface TranscriptTabsProps {
+  // Questions can only be asked about a saved transcript
+  transcriptId?: number;
+  transcriptText: string;
+  // Shown with timestamps when available, otherwise the plain text is shown
+  segments?: TranscriptSegment[] | null;
+  summaryData: TemplatedSummary | null;
+  summaryError: string;
+  isSummarizing: boolean;
+  // Parts of a long transcript summarized so far
+  summaryProgress?: SummaryProgress | null;
+  onGenerateSummary: (template: SummaryTemplateChoice) => void;
+  onCancelSummary: () => void;
+}
+
+/**
+ * Transcript, summary and question tabs shown once a transcription is available
+ * Used for fresh results and for transcripts reopened from history
+ */
+const TranscriptTabs = ({
+  transcriptId,
+  transcriptText,
+  segments,
+  summaryData,
+  summaryError,
+  isSummarizing,
+  summaryProgress,
+  onGenerateSummary,
+  onCancelSummary,
+}: TranscriptTabsProps) => {
+  const [activeTab, setActiveTab] = useState<TranscriptTab>("transcript");
+  // Times of the part of the transcript an answer cited, shown highlighted
+  const [highlight, setHighlight] = useState<{ start: number; end: number } | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  // Picked template for the next summary; starts as the one the current summary used
+  const [template, setTemplate] = useState(summaryData ? pickerValue(summaryData) : "general");
+
+  // A saved summary can arrive after the first render
+  const summaryTemplate = summaryData && pickerValue(summaryData);
+  useEffect(() => {
+    if (summaryTemplate) {
+      setTemplate(summaryTemplate);
+    }
+  }, [summaryTemplate]);
+
+  // Bring the cited segments into view once the transcript tab has rendered them
+  useEffect(() => {
+    if (highlight && activeTab === "transcript") {
+      highlightRef.current?.scrollIntoView({ block: "center" });
+    }
+  }, [highlight, activeTab]);
+
+  const jumpTo = (start: number, end: number) => {
+    setHighlight({ start, end });
+    setActiveTab("transcript");
+  };
+
+  const isHighlighted = (segment: TranscriptSegment) =>
+    !!highlight && segment.start < Math.max(highlight.end, highlight.start + 0.01) && segment.end > highlight.start;
+  const firstHighlighted = segments?.findIndex(isHighlighted) ?? -1;
+
+  const { data: customTemplates } = useQuery({
+    queryKey: SUMMARY_TEMPLATES_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/summary-templates");
+      return res.json() as Promise<CustomSummaryTemplate[]>;
+    },
+  });
+
+  const templateOptions = [
+    ...summaryTemplates.map((option) => ({ value: option.id, name: option.name, description: option.description })),
+    ...(customTemplates ?? []).map((option) => ({
+      value: `custom:${option.id}`,
+      name: option.name,
+      description: option.fields.map((field) => field.name).join(", "),
+    })),
+  ];
+  // The template a summary was made with may since have been deleted
+  const selectedTemplate =
+    !customTemplates || templateOptions.some((option) => option.value === template) ? template : "general";
+
+  // A new transcription that wasn't saved has nothing to ask about
+  const shownTab = activeTab === "ask" && transcriptId === undefined ? "transcript" : activeTab;
+
+  return (
+    <Tabs 
+      value={shownTab} 
+      onValueChange={(value) => setActiveTab(value as TranscriptTab)}
+      className="w-full"
+    >
+      <TabsList className="w-full border-x border-t border-slate-200 bg-white rounded-none">
+        <TabsTrigger 
+          value="transcript" 
+          className="flex items-center data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary"
+        >
+          <FileText className="h-4 w-4 mr-2" />
+          Transcript
+        </TabsTrigger>
+        <TabsTrigger 
+          value="summary" 
+          className="flex items-center data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary"
+          onClick={() => {
+            // Trigger summary generation if we don't have a summary yet and we're not already generating one
+            if (!summaryData && !isSummarizing && transcriptText) {
+              onGenerateSummary(toChoice(selectedTemplate));
+            }
+          }}
+        >
+          <MessageSquareText className="h-4 w-4 mr-2" />
+          Summary
+          {isSummarizing && (
+            <span className="ml-2 h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin"></span>
+          )}
+        </TabsTrigger>
+        {transcriptId !== undefined && (
+          <TabsTrigger 
+            value="ask" 
+            className="flex items-center data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary"
+          >
+            <MessageCircleQuestion className="h-4 w-4 mr-2" />
+            Ask
+          </TabsTrigger>
+        )}
+      </TabsList>
+      
+      <TabsContent value="transcript" className="mt-0">
+        <div className="border border-slate-200 border-t-0 rounded-b-md h-64 overflow-y-auto p-4 bg-white">
+          {segments && segments.length > 0 ? (
+            <div className="space-y-2">
+              {segments.map((segment, index) => (
+                <div key={index} ref={index === firstHighlighted ? highlightRef : undefined}>
+                  {/* Name the speaker at the start of each turn */}
+                  {segment.speaker && segment.speaker !== segments[index - 1]?.speaker && (
+                    <p className="text-xs font-semibold text-primary pl-16 pt-2">{segment.speaker}</p>
+                  )}
+                  <div className={`flex text-sm rounded-sm ${isHighlighted(segment) ? "bg-yellow-100" : ""}`}>
+                    <span className="w-16 flex-shrink-0 font-mono text-xs text-slate-400 pt-0.5">
+                      {formatDuration(segment.start)}
+                    </span>
+                    <p className="text-slate-700">{segment.text}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-700 whitespace-pre-line">
+              {transcriptText}
+            </p>
+          )}
+        </div>
+      </TabsContent>
+      
+      <TabsContent value="summary" className="mt-0">
+        <div className="border border-slate-200 border-t-0 rounded-b-md h-64 overflow-y-auto p-4 bg-white">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <Select
+              value={selectedTemplate}
+              onValueChange={setTemplate}
+              disabled={isSummarizing}
+            >
+              <SelectTrigger className="w-52 h-8 bg-white" aria-label="Summary template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templateOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-500 truncate">
+              {templateOptions.find((option) => option.value === selectedTemplate)?.description}
+            </p>
+          </div>
+
+          {summaryError && (
+            <div className="rounded-md bg-red-50 p-3 mb-3">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                  </svg>
+                </div>
+                <div className="ml-3">
+                  <p className="text-sm text-red-700">{summaryError}</p>
+                </div>
+              </div>
+            </div>
+          )}
+          
+          {isSummarizing && !summaryData && !summaryError && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
+              <p className="text-sm text-slate-700 mb-3">
+                {summaryProgress
+                  ? `Summarized ${summaryProgress.completed} of ${summaryProgress.total} parts...`
+                  : "Generating summary..."}
+              </p>
+              <Button onClick={onCancelSummary} variant="outline" size="sm" className="h-8">
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          )}
+          
+          {!isSummarizing && !summaryData && !summaryError && transcriptText && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <p className="text-sm text-slate-700 mb-3">No summary generated yet.</p>
+              <Button
+                onClick={() => onGenerateSummary(toChoice(selectedTemplate))}
+                size="sm"
+                className="flex items-center"
+              >
+                <MessageSquareText className="h-4 w-4 mr-2" />
+                Generate Summary
+              </Button>
+            </div>
+          )}
+          
+          {summaryData && (
+            <div className="space-y-4">
+              <div className="flex justify-end items-center space-x-3">
+                {/* Long transcripts are summarized in parts and merged */}
+                {summaryData.chunkCount && summaryData.chunkCount > 1 && (
+                  <span className="text-xs text-slate-500 mb-2">
+                    Merged from {summaryData.chunkCount} parts of the transcript
+                  </span>
+                )}
+                {/* The summary is shown as it is written and can be stopped */}
+                {isSummarizing ? (
+                  <Button onClick={onCancelSummary} variant="outline" size="sm" className="mb-2 h-8">
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => {
+                      if (transcriptText) {
+                        onGenerateSummary(toChoice(selectedTemplate));
+                      }
+                    }}
+                    variant="outline"
+                    size="sm"
+                    className="mb-2 h-8"
+                  >
+                    <svg className="h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+                    </svg>
+                    Regenerate
+                  </Button>
+                )}
+              </div>
+
+              <SummaryView summary={summaryData} />
+            </div>
+          )}
+        </div>
+      </TabsContent>
+
+      {transcriptId !== undefined && (
+        <TabsContent value="ask" className="mt-0">
+          <TranscriptQA transcriptId={transcriptId} onJumpTo={jumpTo} />
+        </TabsContent>
+      )}
+    </Tabs>
+  );
+};
+
+export default TranscriptTabs;
@@ -0,0 +1,77 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supportedLanguages, type LanguageCode } from "@shared/languages";
+import type { TranscriptionOptions } from "@shared/schema";
+
+interface TranscriptionOptionsFormProps {
+  value: TranscriptionOptions;
+  onChange: (value: TranscriptionOptions) => void;
+  disabled?: boolean;
+}
+
+// Alphabetical for the dropdown
+const languageOptions = [...supportedLanguages].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Spoken language (or auto-detect), the translate-to-English switch and
+ * context that helps the transcriber with names and jargon
+ */
+const TranscriptionOptionsForm = ({ value, onChange, disabled }: TranscriptionOptionsFormProps) => {
+  return (
+    <div className="space-y-4 bg-slate-50 p-4 rounded-md">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-1 space-y-1.5">
+          <Label htmlFor="transcription-language" className="text-xs text-slate-600">Spoken language</Label>
+          <Select
+            value={value.language ?? "auto"}
+            onValueChange={(language) =>
+              onChange({ ...value, language: language === "auto" ? undefined : (language as LanguageCode) })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id="transcription-language" className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto-detect</SelectItem>
+              {languageOptions.map((language) => (
+                <SelectItem key={language.code} value={language.code}>
+                  {language.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2 sm:pb-2">
+          <Switch
+            id="transcription-translate"
+            checked={value.mode === "translate"}
+            onCheckedChange={(checked) => onChange({ ...value, mode: checked ? "translate" : "transcribe" })}
+            disabled={disabled}
+          />
+          <Label htmlFor="transcription-translate" className="text-sm text-slate-700">Translate to English</Label>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="transcription-prompt" className="text-xs text-slate-600">
+          Context (optional; glossary terms from Settings are always included)
+        </Label>
+        <Input
+          id="transcription-prompt"
+          className="bg-white"
+          value={value.prompt ?? ""}
+          maxLength={500}
+          onChange={(e) => onChange({ ...value, prompt: e.target.value || undefined })}
+          placeholder="Weekly engineering sync with Priya and Tomasz about the Kubernetes migration"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionOptionsForm;
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { uploadResumable } from "@/lib/resumableUpload";
+import { followJob } from "@/lib/jobs";
+import { defaultTranscriptionOptions, type TranscriptionOptions } from "@shared/schema";
+
+export type BatchItemStatus = "waiting" | "uploading" | "queued" | "processing" | "done" | "failed";
+
+export interface BatchItem {
+  key: string;
+  file: File;
+  status: BatchItemStatus;
+  // Upload progress while uploading, job progress afterwards (0-100)
+  progress: number;
+  // Latest stage message from the server
+  message?: string;
+  error?: string;
+  transcriptId?: number;
+}
+
+// Browsers only open about six connections to one server, so job event
+// streams are limited to leave room for uploads and other requests
+const MAX_OPEN_STREAMS = 3;
+
+/**
+ * Run tasks with at most `limit` of them in flight at once
+ */
+function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
+
+/**
+ * Transcribe several files as one batch
+ * Files are uploaded one after another so they don't compete for bandwidth;
+ * each one is queued on the server as soon as it arrives, and the server's
+ * job queue decides how many are transcribed at the same time
+ */
+export default function useBatchTranscription() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const { toast } = useToast();
+
+  const update = (key: string, changes: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const follow = async (key: string, jobId: string) => {
+    try {
+      const result = await followJob(jobId, (events) => {
+        const latest = events[events.length - 1];
+        update(key, {
+          status: latest.type === "upload_received" ? "queued" : "processing",
+          progress: latest.progress,
+          message: latest.message,
+        });
+      });
+      update(key, { status: "done", progress: 100, message: undefined, transcriptId: result.transcriptId });
+      return true;
+    } catch (error: any) {
+      update(key, { status: "failed", message: undefined, error: error.message });
+      return false;
+    }
+  };
+
+  const start = async (files: File[], options: TranscriptionOptions = defaultTranscriptionOptions) => {
+    const batchId = Date.now();
+    const batch: BatchItem[] = files.map((file, index) => ({
+      key: `${batchId}-${index}`,
+      file,
+      status: "waiting",
+      progress: 0,
+    }));
+    setItems(batch);
+    setIsRunning(true);
+
+    const limit = createLimiter(MAX_OPEN_STREAMS);
+    const outcomes: Promise<boolean>[] = [];
+
+    for (const item of batch) {
+      update(item.key, { status: "uploading" });
+      try {
+        const { jobId } = await uploadResumable(item.file, {
+          transcription: options,
+          onProgress: (sent, total) => update(item.key, {
+            progress: total > 0 ? (sent / total) * 100 : 100,
+            message: undefined,
+          }),
+          onRetry: () => update(item.key, { message: "Connection lost, resuming the upload..." }),
+        });
+        update(item.key, { status: "queued", progress: 0, message: "Waiting in the queue" });
+        outcomes.push(limit(() => follow(item.key, jobId)));
+      } catch (error: any) {
+        update(item.key, { status: "failed", message: undefined, error: error.message });
+        outcomes.push(Promise.resolve(false));
+      }
+    }
+
+    const succeeded = (await Promise.all(outcomes)).filter(Boolean).length;
+    setIsRunning(false);
+    // Saved transcripts changed, refresh the history list
+    queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+
+    toast({
+      title: "Batch finished",
+      description: `${succeeded} of ${files.length} files transcribed.`,
+      variant: succeeded < files.length ? "destructive" : "default",
+    });
+  };
+
+  const reset = () => {
+    setItems([]);
+    setIsRunning(false);
+  };
+
+  return {
+    items,
+    isRunning,
+    // Ids of the transcripts finished so far, in upload order
+    transcriptIds: items
+      .map((item) => item.transcriptId)
+      .filter((id): id is number => id !== undefined),
+    start,
+    reset,
+  };
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import useRecorder, { recordingFilename } from "@/hooks/useRecorder";
+import { queryClient } from "@/lib/queryClient";
+import { describeUpstreamError } from "@/lib/upstreamErrors";
+import {
+  defaultTranscriptionOptions,
+  type LiveServerMessage,
+  type TranscriptionOptions,
+  type TranscriptSegment,
+} from "@shared/schema";
+
+export type LiveStatus = "idle" | "connecting" | "live" | "finishing" | "saved" | "failed";
+
+// MediaRecorder hands over audio this often (ms)
+const CHUNK_INTERVAL_MS = 1000;
+
+function liveSocketUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/api/live`;
+}
+
+/**
+ * Stream the microphone to the server and show the transcript as it is produced
+ * Final segments are appended as they settle; the partial text after them may
+ * still change. When recording stops the server saves a normal transcript.
+ */
+export default function useLiveTranscription() {
+  const [status, setStatus] = useState<LiveStatus>("idle");
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [partialText, setPartialText] = useState<string>("");
+  const [transcriptId, setTranscriptId] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string>("");
+  const socketRef = useRef<WebSocket | null>(null);
+  // Set once the session has ended on purpose, so a closing socket isn't reported as lost
+  const endedRef = useRef<boolean>(false);
+  const { toast } = useToast();
+
+  const recorder = useRecorder({
+    timeslice: CHUNK_INTERVAL_MS,
+    onData: (chunk) => {
+      if (socketRef.current?.readyState === WebSocket.OPEN) {
+        socketRef.current.send(chunk);
+      }
+    },
+    // The last chunk has been sent, so the server can finish up
+    onStop: () => {
+      if (socketRef.current?.readyState === WebSocket.OPEN) {
+        socketRef.current.send(JSON.stringify({ type: "stop" }));
+      }
+    },
+  });
+
+  const fail = (message: string) => {
+    endedRef.current = true;
+    setError(message);
+    setStatus("failed");
+    toast({
+      title: "Live transcription failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const handleMessage = (message: LiveServerMessage) => {
+    switch (message.type) {
+      case "ready":
+        setStatus("live");
+        recorder.start().then((started) => {
+          // The recorder shows why the microphone could not be opened
+          if (!started) {
+            endedRef.current = true;
+            setStatus("failed");
+            socketRef.current?.close();
+          }
+        });
+        break;
+      case "final":
+        setSegments((current) => [...current, ...message.segments]);
+        break;
+      case "partial":
+        setPartialText(message.text);
+        break;
+      case "saved":
+        endedRef.current = true;
+        setPartialText("");
+        setTranscriptId(message.transcriptId);
+        setStatus("saved");
+        // Saved transcripts changed, refresh the history list
+        queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+        break;
+      case "error":
+        if (!message.fatal) {
+          // The server retries with the next pass, so keep recording
+          toast({
+            title: "Live transcription delayed",
+            description: describeUpstreamError(message.code, message.message),
+          });
+          break;
+        }
+        fail(describeUpstreamError(message.code, message.message));
+        // Closing the socket also stops the recorder
+        socketRef.current?.close();
+        break;
+    }
+  };
+
+  const start = (options: TranscriptionOptions = defaultTranscriptionOptions) => {
+    setSegments([]);
+    setPartialText("");
+    setTranscriptId(undefined);
+    setError("");
+    setStatus("connecting");
+    endedRef.current = false;
+
+    const socket = new WebSocket(liveSocketUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      const filename = recordingFilename(new Date(), "audio/webm", "live");
+      socket.send(JSON.stringify({ type: "start", filename, ...options }));
+    };
+    socket.onmessage = (event) => {
+      handleMessage(JSON.parse(event.data) as LiveServerMessage);
+    };
+    socket.onclose = () => {
+      socketRef.current = null;
+      recorder.discard();
+      if (!endedRef.current) {
+        fail("Lost connection to the server");
+      }
+    };
+  };
+
+  const stop = () => {
+    setStatus("finishing");
+    recorder.stop();
+  };
+
+  // Close the socket if the page is left mid-recording
+  useEffect(() => {
+    return () => socketRef.current?.close();
+  }, []);
+
+  return {
+    status,
+    segments,
+    partialText,
+    transcriptId,
+    error: error || recorder.error,
+    elapsedSeconds: recorder.elapsedSeconds,
+    level: recorder.level,
+    isPaused: recorder.status === "paused",
+    start,
+    pause: recorder.pause,
+    resume: recorder.resume,
+    stop,
+  };
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type RecorderStatus = "idle" | "recording" | "paused" | "stopped";
+
+// Formats tried in order; the first one the browser can record is used
+const preferredMimeTypes = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+];
+
+const extensionForMimeType = (mimeType: string): string => {
+  if (mimeType.startsWith("audio/ogg")) return "ogg";
+  if (mimeType.startsWith("audio/mp4")) return "m4a";
+  return "webm";
+};
+
+// recording-2024-05-13-142530.webm
+export function recordingFilename(startedAt: Date, mimeType: string, prefix = "recording"): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const date = `${startedAt.getFullYear()}-${pad(startedAt.getMonth() + 1)}-${pad(startedAt.getDate())}`;
+  const time = `${pad(startedAt.getHours())}${pad(startedAt.getMinutes())}${pad(startedAt.getSeconds())}`;
+  return `${prefix}-${date}-${time}.${extensionForMimeType(mimeType)}`;
+}
+
+function pickMimeType(): string {
+  return preferredMimeTypes.find((type) => MediaRecorder.isTypeSupported(type)) || "";
+}
+
+interface UseRecorderOptions {
+  // Emit data every this many milliseconds instead of once at the end
+  timeslice?: number;
+  // Called with each piece of audio as it is recorded
+  onData?: (chunk: Blob) => void;
+  // Called once the final piece has been emitted and the take is complete
+  onStop?: (file: File) => void;
+}
+
+/**
+ * Record audio from the microphone with MediaRecorder
+ * Tracks elapsed time (excluding pauses) and the live input level, and
+ * hands back the finished take as a File ready for upload
+ */
+export default function useRecorder(options?: UseRecorderOptions) {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
+  // Input level between 0 and 1
+  const [level, setLevel] = useState<number>(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>(0);
+  const timerRef = useRef<number>(0);
+  // Milliseconds recorded before the current run, and when that run started
+  const recordedMsRef = useRef<number>(0);
+  const runStartedAtRef = useRef<number>(0);
+  // Latest callbacks, so the recorder's handlers never call stale ones
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updateElapsed = () => {
+    const running = runStartedAtRef.current ? Date.now() - runStartedAtRef.current : 0;
+    setElapsedSeconds((recordedMsRef.current + running) / 1000);
+  };
+
+  // Stop the microphone, the level meter and the timer
+  const releaseInput = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    window.clearInterval(timerRef.current);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  // Measure the RMS level of the input on every animation frame
+  const startLevelMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      // Speech rarely goes above 0.3 RMS, so scale that up to a full meter
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) / 0.3));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  // Resolves to false when the microphone could not be opened
+  const start = async (): Promise<boolean> => {
+    setError("");
+    discard();
+
+    if (typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      setError("Recording is not supported in this browser.");
+      return false;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const startedAt = new Date();
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunks.push(event.data);
+          optionsRef.current?.onData?.(event.data);
+        }
+      };
+      recorder.onstop = () => {
+        const type = recorder.mimeType || mimeType || "audio/webm";
+        const file = new File(chunks, recordingFilename(startedAt, type), { type: type.split(";")[0] });
+        setRecording(file);
+        setPreviewUrl(URL.createObjectURL(file));
+        setStatus("stopped");
+        optionsRef.current?.onStop?.(file);
+      };
+
+      recorderRef.current = recorder;
+      recordedMsRef.current = 0;
+      runStartedAtRef.current = Date.now();
+      setElapsedSeconds(0);
+
+      recorder.start(optionsRef.current?.timeslice);
+      startLevelMeter(stream);
+      timerRef.current = window.setInterval(updateElapsed, 250);
+      setStatus("recording");
+      return true;
+    } catch (err: any) {
+      releaseInput();
+      setError(
+        err?.name === "NotAllowedError"
+          ? "Microphone access was denied. Allow it in your browser settings and try again."
+          : "Could not start recording. Check that a microphone is connected.",
+      );
+      return false;
+    }
+  };
+
+  const pause = () => {
+    if (recorderRef.current?.state !== "recording") return;
+    recorderRef.current.pause();
+    recordedMsRef.current += Date.now() - runStartedAtRef.current;
+    runStartedAtRef.current = 0;
+    updateElapsed();
+    setStatus("paused");
+  };
+
+  const resume = () => {
+    if (recorderRef.current?.state !== "paused") return;
+    recorderRef.current.resume();
+    runStartedAtRef.current = Date.now();
+    setStatus("recording");
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    if (runStartedAtRef.current) {
+      recordedMsRef.current += Date.now() - runStartedAtRef.current;
+      runStartedAtRef.current = 0;
+    }
+    updateElapsed();
+    // onstop builds the file once the last data has been flushed
+    recorder.stop();
+    releaseInput();
+  };
+
+  // Throw away the current take
+  const discard = () => {
+    if (recorderRef.current && recorderRef.current.state !== "inactive") {
+      recorderRef.current.onstop = null;
+      recorderRef.current.stop();
+    }
+    recorderRef.current = null;
+    releaseInput();
+    setPreviewUrl("");
+    setRecording(null);
+    setElapsedSeconds(0);
+    setStatus("idle");
+  };
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current && recorderRef.current.state !== "inactive") {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      releaseInput();
+    };
+  }, [releaseInput]);
+
+  // Free the preview once it is replaced
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  return {
+    status,
+    elapsedSeconds,
+    level,
+    recording,
+    previewUrl,
+    error,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  };
+}
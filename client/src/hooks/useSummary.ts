@@ -1,47 +1,121 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import type { Summary } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { readEventStream } from "@/lib/eventStream";
+import { parsePartialJson } from "@/lib/partialJson";
+import { describeUpstreamError } from "@/lib/upstreamErrors";
+import {
+  partialSummary,
+  type SummaryStreamEvent,
+  type SummaryStreamStart,
+  type SummaryTemplateId,
+  type TemplatedSummary,
+} from "@shared/summaryTemplates";
+
+// A built-in template, or the id of one of the user's own templates
+export type SummaryTemplateChoice = SummaryTemplateId | { customTemplateId: number };
+
+// Parts of a long transcript summarized so far, before they are merged
+export interface SummaryProgress {
+  completed: number;
+  total: number;
+}
 
 interface UseSummaryOptions {
   onSummaryComplete?: () => void;
 }
 
 export default function useSummary(options?: UseSummaryOptions) {
-  const [summaryData, setSummaryData] = useState<Summary | null>(null);
+  const [summaryData, setSummaryData] = useState<TemplatedSummary | null>(null);
   const [summaryError, setSummaryError] = useState<string>("");
   const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
+  // Aborts the summary being generated
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   const summaryMutation = useMutation({
-    mutationFn: async (text: string) => {
+    mutationFn: async ({
+      text,
+      transcriptId,
+      template,
+    }: {
+      text: string;
+      transcriptId?: number;
+      template?: SummaryTemplateChoice;
+    }) => {
       setIsSummarizing(true);
+      const controller = new AbortController();
+      abortRef.current = controller;
       
+      // Ask for an event stream so the summary can be shown while it is written
       const response = await fetch("/api/summarize", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Accept": "text/event-stream",
         },
-        body: JSON.stringify({ text }),
+        // Saved transcripts are loaded on the server, so long ones aren't sent back in the request
+        body: JSON.stringify({
+          ...(transcriptId !== undefined ? { transcriptId } : { text }),
+          ...(typeof template === "object" ? template : { template }),
+        }),
+        signal: controller.signal,
       });
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to generate summary");
+        throw new Error(
+          describeUpstreamError(errorData.code, errorData.message || "Failed to generate summary", errorData.retryAfter),
+        );
+      }
+      
+      let start: SummaryStreamStart | null = null;
+      let answer = "";
+      
+      for await (const event of readEventStream<SummaryStreamEvent>(response)) {
+        switch (event.type) {
+          case "start":
+            start = event;
+            break;
+          case "progress":
+            setSummaryProgress({ completed: event.completed, total: event.total });
+            break;
+          case "text":
+            answer = event.reset ? event.text : answer + event.text;
+            if (start) {
+              setSummaryData(partialSummary(start, parsePartialJson(answer)));
+            }
+            break;
+          case "done":
+            return event.summary;
+          case "error":
+            throw new Error(describeUpstreamError(event.code, event.message, event.retryAfter));
+        }
       }
       
-      return response.json() as Promise<Summary>;
+      throw new Error("Lost connection to the server while summarizing");
     },
     onSuccess: (data) => {
       setSummaryData(data);
+      setSummaryProgress(null);
+      // Saved transcripts changed, refresh the history list
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
       setIsSummarizing(false);
       if (options?.onSummaryComplete) {
         options.onSummaryComplete();
       }
     },
     onError: (error: Error) => {
-      setSummaryError(error.message);
       setIsSummarizing(false);
+      setSummaryProgress(null);
+      // Cancelled by the user: drop what was written so far without complaint
+      if (error.name === "AbortError") {
+        setSummaryData(null);
+        return;
+      }
+      setSummaryError(error.message);
       toast({
         title: "Summary generation failed",
         description: error.message,
@@ -50,16 +124,25 @@ export default function useSummary(options?: UseSummaryOptions) {
     },
   });
 
-  const generateSummary = async (text: string) => {
+  // Failures and cancellations are handled by the mutation, so nothing is returned to catch
+  const generateSummary = (text: string, transcriptId?: number, template?: SummaryTemplateChoice) => {
     setSummaryData(null);
     setSummaryError("");
-    return summaryMutation.mutateAsync(text);
+    setSummaryProgress(null);
+    summaryMutation.mutate({ text, transcriptId, template });
+  };
+
+  // Stop the summary being generated; the server stops its request to the AI service too
+  const cancelSummary = () => {
+    abortRef.current?.abort();
   };
 
   return {
     generateSummary,
+    cancelSummary,
     summaryData,
     summaryError,
+    summaryProgress,
     isSummarizing,
   };
 }
\ No newline at end of file
@@ -1,43 +1,75 @@
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Transcription } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { uploadResumable } from "@/lib/resumableUpload";
+import { followJob } from "@/lib/jobs";
+import {
+  defaultTranscriptionOptions,
+  type JobEvent,
+  type MediaInfo,
+  type TranscriptionMode,
+  type TranscriptionOptions,
+  type TranscriptSegment,
+  type TranscriptWord,
+} from "@shared/schema";
 
 interface UseTranscriptionOptions {
-  onTranscriptionComplete?: (text: string) => void;
+  onTranscriptionComplete?: (text: string, transcriptId?: number) => void;
 }
 
 export default function useTranscription(options?: UseTranscriptionOptions) {
   const [transcriptionText, setTranscriptionText] = useState<string>("");
+  const [transcriptionSegments, setTranscriptionSegments] = useState<TranscriptSegment[]>([]);
+  const [transcriptionWords, setTranscriptionWords] = useState<TranscriptWord[]>([]);
   const [transcriptionError, setTranscriptionError] = useState<string>("");
+  // Spoken language as chosen or detected, and whether the text is a translation
+  const [transcriptionLanguage, setTranscriptionLanguage] = useState<string | undefined>(undefined);
+  const [transcriptionMode, setTranscriptionMode] = useState<TranscriptionMode>("transcribe");
   const [transcriptionProgress, setTranscriptionProgress] = useState<number>(0);
   const [wasCompressed, setWasCompressed] = useState<boolean>(false);
+  const [progressEvents, setProgressEvents] = useState<JobEvent[]>([]);
+  const [transcriptId, setTranscriptId] = useState<number | undefined>(undefined);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  // Share of the file the server has received (0-100)
+  const [uploadProgress, setUploadProgress] = useState<number>(0);
+  // Set while a failed chunk waits to be retried
+  const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
   const { toast } = useToast();
 
   const transcriptionMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append("file", file);
-      
-      // Start progress simulation
-      simulateProgress();
-      
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        body: formData,
+    mutationFn: async ({ file, options }: { file: File; options: TranscriptionOptions }) => {
+      setTranscriptionProgress(0);
+      setUploadProgress(0);
+
+      // Sent in chunks so a dropped connection resumes instead of starting over.
+      // The server checks the file, queues the work and hands back a job to follow
+      const { jobId, media } = await uploadResumable(file, {
+        transcription: options,
+        onProgress: (sent, total) => {
+          setUploadProgress(total > 0 ? (sent / total) * 100 : 100);
+          setIsReconnecting(false);
+        },
+        onRetry: () => setIsReconnecting(true),
+      });
+      setIsReconnecting(false);
+      setMediaInfo(media);
+
+      return followJob(jobId, (events) => {
+        const latest = events[events.length - 1];
+        setProgressEvents(events);
+        setTranscriptionProgress(latest.progress);
       });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to transcribe audio");
-      }
-      
-      setTranscriptionProgress(100);
-      return response.json() as Promise<Transcription>;
     },
     onSuccess: (data) => {
       setTranscriptionText(data.text);
+      setTranscriptionSegments(data.segments ?? []);
+      setTranscriptionWords(data.words ?? []);
+      setTranscriptionLanguage(data.language);
+      setTranscriptionMode(data.mode ?? "transcribe");
+      // Saved transcripts changed, refresh the history list
+      queryClient.invalidateQueries({ queryKey: ["/api/transcripts"] });
+      setTranscriptId(data.transcriptId);
       // Check if the audio was compressed
       if (data.wasCompressed) {
         setWasCompressed(true);
@@ -48,7 +80,7 @@ export default function useTranscription(options?: UseTranscriptionOptions) {
         });
       }
       if (options?.onTranscriptionComplete) {
-        options.onTranscriptionComplete(data.text);
+        options.onTranscriptionComplete(data.text, data.transcriptId);
       }
     },
     onError: (error: Error) => {
@@ -64,37 +96,34 @@ export default function useTranscription(options?: UseTranscriptionOptions) {
     },
   });
 
-  const simulateProgress = () => {
-    setTranscriptionProgress(0);
-    
-    const interval = setInterval(() => {
-      setTranscriptionProgress((prev) => {
-        // Simulate non-linear progress
-        if (prev >= 90) {
-          clearInterval(interval);
-          return 90;
-        }
-        
-        const increment = (100 - prev) / 10;
-        return prev + increment * Math.random();
-      });
-    }, 300);
-    
-    return () => clearInterval(interval);
-  };
-
-  const transcribe = async (file: File) => {
+  const transcribe = async (file: File, options: TranscriptionOptions = defaultTranscriptionOptions) => {
     setTranscriptionText("");
+    setTranscriptionSegments([]);
+    setTranscriptionWords([]);
     setTranscriptionError("");
-    return transcriptionMutation.mutateAsync(file);
+    setProgressEvents([]);
+    setTranscriptId(undefined);
+    setMediaInfo(null);
+    setUploadProgress(0);
+    setIsReconnecting(false);
+    return transcriptionMutation.mutateAsync({ file, options });
   };
 
   return {
     transcribe,
     transcriptionText,
+    transcriptionSegments,
+    transcriptionWords,
     transcriptionError,
+    transcriptionLanguage,
+    transcriptionMode,
     transcriptionProgress,
     wasCompressed,
+    progressEvents,
+    transcriptId,
+    mediaInfo,
+    uploadProgress,
+    isReconnecting,
     isTranscribing: transcriptionMutation.isPending,
   };
 }
@@ -0,0 +1,35 @@
+/**
+ * Read the events of a Server-Sent Events response
+ * EventSource can only make GET requests, so streams answering a POST are read
+ * from the fetch response instead. Only `data` lines are used; every event
+ * sent by this server carries its type in its JSON.
+ * @param response A fetch response with a text/event-stream body
+ * @returns Each event's data, parsed as JSON
+ */
+export async function* readEventStream<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+
+    buffer += value.replace(/\r\n?/g, "\n");
+    // Events end with a blank line; keep an unfinished one for the next read
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice("data:".length).trimStart())
+        .join("\n");
+      if (data) {
+        yield JSON.parse(data) as T;
+      }
+    }
+  }
+}
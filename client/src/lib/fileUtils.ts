@@ -1,3 +1,5 @@
+import { findSupportedFormat, unsupportedFormatMessage } from "@shared/schema";
+
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 B";
   
@@ -14,10 +16,9 @@ export function formatFileSize(bytes: number): string {
 }
 
 export function validateAudioFile(file: File): string | null {
-  // Check file type
-  const validTypes = ["audio/mpeg", "audio/wav", "audio/mp4", "audio/x-m4a"];
-  if (!validTypes.includes(file.type)) {
-    return "Invalid file type. Please upload an MP3, WAV, or M4A file.";
+  // Check file type against the formats the server accepts
+  if (!findSupportedFormat(file.name, file.type)) {
+    return unsupportedFormatMessage;
   }
   
   // Check file size (100MB max)
@@ -28,3 +29,42 @@ export function validateAudioFile(file: File): string | null {
   
   return null;
 }
+
+export function formatDuration(seconds: number): string {
+  const totalSeconds = Math.round(seconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  
+  const paddedSeconds = secs.toString().padStart(2, "0");
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${paddedSeconds}`;
+  }
+  
+  return `${minutes}:${paddedSeconds}`;
+}
+
+export function downloadTextFile(content: string, filename: string, mimeType = "text/plain"): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  
+  // Cleanup
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, 0);
+}
+
+export function stripExtension(filename: string): string {
+  const filenameParts = filename.split(".");
+  if (filenameParts.length > 1) {
+    filenameParts.pop();
+  }
+  return filenameParts.join(".");
+}
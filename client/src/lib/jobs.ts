@@ -0,0 +1,66 @@
+import { describeUpstreamError } from "@/lib/upstreamErrors";
+import { jobEventTypes, type JobEvent, type Transcription, type TranscriptionJob } from "@shared/schema";
+
+/**
+ * Fetch the current state of a transcription job
+ * @param jobId The id returned when the file was submitted
+ */
+async function fetchJob(jobId: string): Promise<TranscriptionJob> {
+  const response = await fetch(`/api/jobs/${jobId}`);
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || "Failed to check transcription status");
+  }
+
+  return response.json() as Promise<TranscriptionJob>;
+}
+
+/**
+ * Follow a transcription job's stage events until it finishes
+ * The server replays earlier events whenever the stream (re)connects
+ * @param jobId The id returned when the file was submitted
+ * @param onEvents Called with every event received so far
+ * @returns The finished transcription
+ */
+export function followJob(jobId: string, onEvents: (events: JobEvent[]) => void): Promise<Transcription> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let events: JobEvent[] = [];
+
+    source.onopen = () => {
+      events = [];
+    };
+
+    const handleEvent = async (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      events = [...events, event];
+      onEvents(events);
+
+      if (event.type === "failed") {
+        source.close();
+        reject(new Error(describeUpstreamError(event.code, event.message || "Failed to transcribe audio")));
+      } else if (event.type === "done") {
+        source.close();
+        try {
+          const job = await fetchJob(jobId);
+          if (!job.result) {
+            throw new Error("Transcription finished without a result");
+          }
+          resolve(job.result);
+        } catch (error) {
+          reject(error);
+        }
+      }
+    };
+
+    jobEventTypes.forEach((type) => source.addEventListener(type, handleEvent));
+
+    source.onerror = () => {
+      // EventSource retries on its own while the connection is CONNECTING
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost connection to the server while transcribing"));
+      }
+    };
+  });
+}
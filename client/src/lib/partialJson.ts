@@ -0,0 +1,47 @@
+// Furthest a partial answer is cut back while looking for something that parses,
+// enough for an unfinished key or number
+const MAX_TRIM = 200;
+
+// What it takes to close the strings, arrays and objects still open at the end of the text
+function closingFor(text: string): string {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      open.push("}");
+    } else if (char === "[") {
+      open.push("]");
+    } else if (char === "}" || char === "]") {
+      open.pop();
+    }
+  }
+
+  return (inString ? '"' : "") + open.reverse().join("");
+}
+
+/**
+ * Parse JSON that is still being written, e.g. a streamed model answer
+ * Open strings, arrays and objects are closed, and anything at the end that
+ * can't be completed (half a key, a dangling comma) is dropped
+ * @param text The JSON received so far
+ * @returns The value as far as it goes, or undefined if nothing parses yet
+ */
+export function parsePartialJson(text: string): unknown {
+  for (let end = text.length; end > 0 && end >= text.length - MAX_TRIM; end--) {
+    const head = text.slice(0, end);
+    try {
+      return JSON.parse(head + closingFor(head));
+    } catch {
+      // Cut off one more character and try again
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,233 @@
+import type { MediaInfo, TranscriptionOptions, UploadStatus } from "@shared/schema";
+
+// Wait this long before each retry after a failed chunk (ms); the upload
+// gives up once they are used up without a chunk getting through
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
+
+// SubtleCrypto can only hash a whole buffer, so the file's checksum means reading
+// all of it into memory. Larger files skip it; every chunk is still checked.
+const MAX_FILE_CHECKSUM_BYTES = 32 * 1024 * 1024;
+
+// Upload ids are remembered per file so a reloaded page can pick up where it left off
+const STORAGE_PREFIX = "resumable-upload:";
+
+export interface ResumableUploadOptions {
+  // Generate the summary as part of the job
+  summarize?: boolean;
+  // Spoken language and whether to translate to English
+  transcription?: TranscriptionOptions;
+  // Called as bytes reach the server
+  onProgress?: (sent: number, total: number) => void;
+  // Called when a chunk failed and the upload will try again
+  onRetry?: (error: Error) => void;
+}
+
+export interface QueuedUpload {
+  jobId: string;
+  media: MediaInfo;
+}
+
+/**
+ * Failed request to the upload API; status is 0 when the server was never reached
+ */
+class UploadRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "UploadRequestError";
+    this.status = status;
+  }
+}
+
+function storageKey(file: File): string {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// SubtleCrypto only exists on HTTPS and localhost; checksums are skipped elsewhere
+async function sha256(data: Blob): Promise<Uint8Array | undefined> {
+  if (!window.crypto?.subtle) return undefined;
+  return new Uint8Array(await window.crypto.subtle.digest("SHA-256", await data.arrayBuffer()));
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+async function requestJson<T>(method: string, url: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : {},
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch {
+    throw new UploadRequestError(0, "Lost connection to the server");
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new UploadRequestError(response.status, errorData.message || `Upload request failed (${response.status})`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Send one chunk with XMLHttpRequest, which unlike fetch reports upload progress
+ */
+function sendChunk(
+  id: string,
+  offset: number,
+  chunk: Blob,
+  checksum: string | undefined,
+  onProgress: (loaded: number) => void,
+): Promise<UploadStatus> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${id}`);
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    if (checksum) {
+      xhr.setRequestHeader("Upload-Checksum", checksum);
+    }
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      let body: any = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Proxies may answer with HTML
+      }
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(body as UploadStatus);
+      } else {
+        reject(new UploadRequestError(xhr.status, body.message || `Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new UploadRequestError(0, "Lost connection to the server"));
+    xhr.ontimeout = xhr.onerror;
+
+    xhr.send(chunk);
+  });
+}
+
+// Connection drops, conflicts (resync the offset) and server errors are worth another try
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof UploadRequestError)) return false;
+  return error.status === 0 || error.status === 409 || error.status === 422 || error.status >= 500;
+}
+
+// Upload not found, or its file failed the checksum or couldn't be read as audio
+function isGoneOrRejected(status: number): boolean {
+  return status === 400 || status === 404 || status === 413 || status === 422;
+}
+
+// Wait for the delay, or for the browser to come back online if it is offline
+function waitToRetry(delayMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (!navigator.onLine) {
+      window.addEventListener("online", () => resolve(), { once: true });
+    } else {
+      setTimeout(resolve, delayMs);
+    }
+  });
+}
+
+/**
+ * Continue the upload remembered for this file, or start a new one
+ */
+async function resumeOrCreate(file: File, checksum: string | undefined): Promise<UploadStatus> {
+  const key = storageKey(file);
+  const savedId = localStorage.getItem(key);
+
+  if (savedId) {
+    try {
+      const status = await requestJson<UploadStatus>("GET", `/api/uploads/${savedId}`);
+      if (status.size === file.size) return status;
+    } catch {
+      // Expired or never finished being created; start over
+    }
+  }
+
+  const status = await requestJson<UploadStatus>("POST", "/api/uploads", {
+    filename: file.name,
+    mimeType: file.type,
+    size: file.size,
+    checksum,
+  });
+  localStorage.setItem(key, status.id);
+  return status;
+}
+
+/**
+ * Upload a file in chunks and queue it for transcription
+ * Chunks that fail are retried from the offset the server reports, and a
+ * page reload resumes the same upload the next time this file is sent
+ * @returns The queued job and what the server found in the file
+ */
+export async function uploadResumable(file: File, options: ResumableUploadOptions = {}): Promise<QueuedUpload> {
+  const digest = file.size <= MAX_FILE_CHECKSUM_BYTES ? await sha256(file) : undefined;
+  let status = await resumeOrCreate(file, digest && toHex(digest));
+  let failures = 0;
+  let stale = false;
+
+  options.onProgress?.(status.offset, file.size);
+
+  while (true) {
+    try {
+      if (stale) {
+        status = await requestJson<UploadStatus>("GET", `/api/uploads/${status.id}`);
+        stale = false;
+      }
+      if (status.offset >= status.size) break;
+
+      const offset = status.offset;
+      const chunk = file.slice(offset, Math.min(offset + status.chunkSize, file.size));
+      const chunkDigest = await sha256(chunk);
+      status = await sendChunk(status.id, offset, chunk, chunkDigest && toBase64(chunkDigest), (loaded) =>
+        options.onProgress?.(offset + loaded, file.size),
+      );
+      options.onProgress?.(status.offset, file.size);
+      failures = 0;
+    } catch (error) {
+      if (!isRetryable(error) || failures >= RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+      options.onRetry?.(error as Error);
+      await waitToRetry(RETRY_DELAYS_MS[failures++]);
+      // Ask the server how much it really has before sending more
+      stale = true;
+    }
+  }
+
+  try {
+    const queued = await requestJson<QueuedUpload>("POST", `/api/uploads/${status.id}/complete`, {
+      ...options.transcription,
+      summarize: options.summarize ?? false,
+    });
+    localStorage.removeItem(storageKey(file));
+    return queued;
+  } catch (error) {
+    // The upload is gone or was rejected, so there is nothing to resume. After
+    // a dropped connection or a server error it is kept for the next attempt
+    if (error instanceof UploadRequestError && isGoneOrRejected(error.status)) {
+      localStorage.removeItem(storageKey(file));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import type { UpstreamErrorCode } from "@shared/schema";
+
+/**
+ * Turn an upstream error code from the server into a message that tells the user what to do
+ * @param code Error code from a failed response or job event
+ * @param fallback Message to use when there is no code
+ * @param retryAfter Seconds the server asked us to wait, if known
+ */
+export function describeUpstreamError(
+  code: UpstreamErrorCode | undefined,
+  fallback: string,
+  retryAfter?: number,
+): string {
+  switch (code) {
+    case "UPSTREAM_RATE_LIMITED":
+      return retryAfter
+        ? `The AI service is receiving too many requests. Please try again in ${Math.ceil(retryAfter)} seconds.`
+        : "The AI service is receiving too many requests. Please wait a minute and try again.";
+    case "UPSTREAM_UNAVAILABLE":
+      return "The AI service is temporarily unavailable. Please try again in a few minutes.";
+    case "UPSTREAM_REJECTED":
+      return "The AI service could not process this request. Check that the file is a valid recording, or try a shorter one.";
+    default:
+      return fallback;
+  }
+}
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Mic, Layers, Globe, Shield } from "lucide-react";
+import { supportedFormatLabels } from "@shared/schema";
 
 const About = () => {
   return (
@@ -39,7 +40,7 @@ const About = () => {
                 <div>
                   <h4 className="font-medium text-slate-900">Multiple File Formats</h4>
                   <p className="text-sm text-slate-600 mt-1">
-                    Support for MP3, WAV, and M4A audio formats
+                    Support for {supportedFormatLabels} files, with the audio track taken from videos
                   </p>
                 </div>
               </div>
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { FileAudio, MessageSquareText, Search } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/fileUtils";
+import TranscriptLanguage from "@/components/TranscriptLanguage";
+import type { TranscriptPage } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+// Page numbers to show around the current page, with null marking a gap
+function visiblePages(current: number, totalPages: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= totalPages; page++) {
+    if (page === 1 || page === totalPages || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+const History = () => {
+  const [searchInput, setSearchInput] = useState<string>("");
+  const [search, setSearch] = useState<string>("");
+  const [page, setPage] = useState<number>(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/transcripts", search, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search) {
+        params.set("search", search);
+      }
+      const res = await apiRequest("GET", `/api/transcripts?${params}`);
+      return res.json() as Promise<TranscriptPage>;
+    },
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const submitSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    if (target >= 1 && target <= totalPages) {
+      setPage(target);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-5 border-b border-slate-200 space-y-4">
+          <h2 className="text-lg font-semibold text-slate-900">Transcript History</h2>
+          <form onSubmit={submitSearch} className="flex space-x-2">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by filename or transcript text"
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </Button>
+          </form>
+        </div>
+
+        <div className="divide-y divide-slate-200">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
+              <p className="text-sm text-slate-700">Loading transcripts...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-6">
+              <p className="text-sm text-red-700">{(error as Error).message}</p>
+            </div>
+          )}
+
+          {data && data.items.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <p className="text-sm text-slate-700">
+                {search ? "No transcripts match your search." : "No transcripts yet."}
+              </p>
+            </div>
+          )}
+
+          {data?.items.map((transcript) => (
+            <Link key={transcript.id} href={`/history/${transcript.id}`}>
+              <div className="px-6 py-4 flex items-start space-x-3 cursor-pointer hover:bg-slate-50">
+                <FileAudio className="h-6 w-6 text-slate-400 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">{transcript.title}</p>
+                  {transcript.title !== transcript.filename && (
+                    <p className="text-xs text-slate-500 truncate">{transcript.filename}</p>
+                  )}
+                  <p className="text-xs text-slate-500 mt-1 space-x-3">
+                    <span>{new Date(transcript.createdAt).toLocaleString()}</span>
+                    {transcript.duration != null && <span>{formatDuration(transcript.duration)}</span>}
+                    {transcript.language || transcript.mode === "translate" ? (
+                      <TranscriptLanguage language={transcript.language} mode={transcript.mode} />
+                    ) : (
+                      <span>Language unknown</span>
+                    )}
+                  </p>
+                </div>
+                {transcript.hasSummary && (
+                  <span className="inline-flex items-center text-xs font-medium text-primary">
+                    <MessageSquareText className="h-4 w-4 mr-1" />
+                    Summary
+                  </span>
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+
+        {data && totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-slate-200">
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={(e) => goToPage(e, page - 1)} />
+                </PaginationItem>
+                {visiblePages(page, totalPages).map((target, index) => (
+                  <PaginationItem key={index}>
+                    {target === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href="#" isActive={target === page} onClick={(e) => goToPage(e, target)}>
+                        {target}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={(e) => goToPage(e, page + 1)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import SummaryTemplateSettings from "@/components/SummaryTemplateSettings";
+import { BookA, Pencil, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GlossaryTerm, InsertGlossaryTerm } from "@shared/schema";
+
+const GLOSSARY_KEY = ["/api/glossary"];
+
+// Aliases are typed as one comma-separated list
+function parseAliases(value: string): string[] {
+  return value
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+const emptyForm = { term: "", aliases: "", caseSensitive: false };
+
+const Settings = () => {
+  const [form, setForm] = useState(emptyForm);
+  // Id of the term being edited, if the form isn't adding a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const { data: terms, isLoading, error } = useQuery({
+    queryKey: GLOSSARY_KEY,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/glossary");
+      return res.json() as Promise<GlossaryTerm[]>;
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Glossary not saved",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (term: InsertGlossaryTerm) => {
+      const res = editingId === null
+        ? await apiRequest("POST", "/api/glossary", term)
+        : await apiRequest("PATCH", `/api/glossary/${editingId}`, term);
+      return res.json() as Promise<GlossaryTerm>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: GLOSSARY_KEY });
+      setForm(emptyForm);
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/glossary/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: GLOSSARY_KEY });
+      if (id === editingId) {
+        setForm(emptyForm);
+        setEditingId(null);
+      }
+    },
+    onError,
+  });
+
+  const submit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form.term.trim()) return;
+    saveMutation.mutate({
+      term: form.term.trim(),
+      aliases: parseAliases(form.aliases),
+      caseSensitive: form.caseSensitive,
+    });
+  };
+
+  const edit = (term: GlossaryTerm) => {
+    setEditingId(term.id);
+    setForm({ term: term.term, aliases: term.aliases.join(", "), caseSensitive: term.caseSensitive });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 py-5 border-b border-slate-200 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Glossary</h2>
+            <p className="text-sm text-slate-600 mt-1">
+              Names, product terms and jargon the transcriber should spell correctly. Terms are given to the
+              transcriber as a hint, and any alias found in a transcript is replaced with the term.
+            </p>
+          </div>
+
+          <form onSubmit={submit} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="glossary-term" className="text-xs text-slate-600">Term</Label>
+                <Input
+                  id="glossary-term"
+                  value={form.term}
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, term: e.target.value })}
+                  placeholder="Kubernetes"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="glossary-aliases" className="text-xs text-slate-600">Heard as (comma-separated)</Label>
+                <Input
+                  id="glossary-aliases"
+                  value={form.aliases}
+                  onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                  placeholder="cooper netties, kubernetties"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="glossary-case-sensitive"
+                  checked={form.caseSensitive}
+                  onCheckedChange={(caseSensitive) => setForm({ ...form, caseSensitive })}
+                />
+                <Label htmlFor="glossary-case-sensitive" className="text-sm text-slate-700">
+                  Match aliases case-sensitively
+                </Label>
+              </div>
+              <div className="space-x-2">
+                {editingId !== null && (
+                  <Button type="button" variant="outline" onClick={cancelEdit}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={!form.term.trim() || saveMutation.isPending}>
+                  {editingId === null ? "Add Term" : "Save Term"}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </div>
+
+        <div className="divide-y divide-slate-200">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
+              <p className="text-sm text-slate-700">Loading glossary...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-6">
+              <p className="text-sm text-red-700">{(error as Error).message}</p>
+            </div>
+          )}
+
+          {terms && terms.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <p className="text-sm text-slate-700">No glossary terms yet.</p>
+            </div>
+          )}
+
+          {terms?.map((term) => (
+            <div key={term.id} className="px-6 py-4 flex items-start space-x-3">
+              <BookA className="h-6 w-6 text-slate-400 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-900">{term.term}</p>
+                <p className="text-xs text-slate-500 mt-1 space-x-3">
+                  <span>{term.aliases.length > 0 ? `Heard as ${term.aliases.join(", ")}` : "No aliases"}</span>
+                  {term.caseSensitive && <span>Case-sensitive</span>}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => edit(term)} title="Edit term">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(term.id)}
+                disabled={deleteMutation.isPending}
+                title="Delete term"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <SummaryTemplateSettings />
+    </div>
+  );
+};
+
+export default Settings;
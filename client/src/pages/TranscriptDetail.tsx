@@ -0,0 +1,121 @@
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+import useSummary from "@/hooks/useSummary";
+import TranscriptTabs from "@/components/TranscriptTabs";
+import { apiRequest } from "@/lib/queryClient";
+import DownloadMenu from "@/components/DownloadMenu";
+import MediaInfoDetails from "@/components/MediaInfoDetails";
+import TranscriptLanguage from "@/components/TranscriptLanguage";
+import SpeakerNames from "@/components/SpeakerNames";
+import { formatDuration, downloadTextFile, stripExtension } from "@/lib/fileUtils";
+import { speakerLabelledText } from "@shared/speakers";
+import { fromSummaryRecord } from "@shared/summaryTemplates";
+import type { TranscriptWithSummary } from "@shared/schema";
+
+const TranscriptDetail = () => {
+  const params = useParams<{ id: string }>();
+  const transcriptId = Number(params.id);
+
+  const { data: transcript, isLoading, error } = useQuery({
+    queryKey: ["/api/transcripts", transcriptId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/transcripts/${transcriptId}`);
+      return res.json() as Promise<TranscriptWithSummary>;
+    },
+  });
+
+  const {
+    generateSummary,
+    cancelSummary,
+    summaryData,
+    summaryError,
+    summaryProgress,
+    isSummarizing
+  } = useSummary();
+
+  // A freshly generated summary replaces the saved one
+  const savedSummary = transcript?.summary ? fromSummaryRecord(transcript.summary) : null;
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <Card className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="px-6 pt-6">
+          <Link href="/history">
+            <a className="inline-flex items-center text-sm text-primary hover:text-primary/80 font-medium mb-4">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to history
+            </a>
+          </Link>
+        </div>
+
+        <div className="p-6 pt-0 space-y-6">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
+              <p className="text-sm text-slate-700">Loading transcript...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <p className="text-sm text-red-700">{(error as Error).message}</p>
+            </div>
+          )}
+
+          {transcript && (
+            <div>
+              <div className="bg-slate-50 p-4 rounded-t-md border border-slate-200 flex justify-between items-start">
+                <div className="min-w-0">
+                  <h3 className="text-sm font-medium text-slate-900 truncate">{transcript.title}</h3>
+                  <p className="text-xs text-slate-500 mt-1 space-x-3">
+                    <span>{transcript.filename}</span>
+                    <span>{new Date(transcript.createdAt).toLocaleString()}</span>
+                    {transcript.duration != null && <span>{formatDuration(transcript.duration)}</span>}
+                    <TranscriptLanguage language={transcript.language} mode={transcript.mode} />
+                  </p>
+                  {transcript.media && (
+                    <div className="mt-1">
+                      <MediaInfoDetails media={transcript.media} />
+                    </div>
+                  )}
+                </div>
+                <DownloadMenu
+                  onDownload={(format) => {
+                    if (format === "txt") {
+                      downloadTextFile(
+                        speakerLabelledText(transcript.text, transcript.segments),
+                        `${stripExtension(transcript.title)}_transcript.txt`,
+                      );
+                    } else {
+                      // Subtitles are built by the export route
+                      window.location.href = `/api/transcripts/${transcript.id}/export?format=${format}`;
+                    }
+                  }}
+                  subtitlesAvailable={(transcript.segments?.length ?? 0) > 0 || transcript.duration != null}
+                />
+              </div>
+
+              <TranscriptTabs
+                transcriptId={transcript.id}
+                transcriptText={transcript.text}
+                segments={transcript.segments}
+                summaryData={isSummarizing ? summaryData : summaryData ?? savedSummary}
+                summaryError={summaryError}
+                isSummarizing={isSummarizing}
+                summaryProgress={summaryProgress}
+                onGenerateSummary={(template) => generateSummary(transcript.text, transcript.id, template)}
+                onCancelSummary={cancelSummary}
+              />
+
+              <SpeakerNames transcriptId={transcript.id} segments={transcript.segments} />
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default TranscriptDetail;
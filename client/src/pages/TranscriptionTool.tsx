@@ -3,91 +3,144 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Mic, Upload, Copy, Download, X, FileAudio, FileText, MessageSquareText } from "lucide-react";
+import { Mic, Upload, Copy, X, FileAudio, Check, AlertTriangle, Radio } from "lucide-react";
 import useTranscription from "@/hooks/useTranscription";
 import useSummary from "@/hooks/useSummary";
-import { formatFileSize, validateAudioFile } from "@/lib/fileUtils";
+import useBatchTranscription from "@/hooks/useBatchTranscription";
+import TranscriptTabs from "@/components/TranscriptTabs";
+import Recorder from "@/components/Recorder";
+import BatchQueue from "@/components/BatchQueue";
+import LiveTranscriber from "@/components/LiveTranscriber";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import DownloadMenu, { type DownloadFormat } from "@/components/DownloadMenu";
+import MediaInfoDetails from "@/components/MediaInfoDetails";
+import TranscriptionOptionsForm from "@/components/TranscriptionOptionsForm";
+import TranscriptLanguage from "@/components/TranscriptLanguage";
+import { formatFileSize, validateAudioFile, downloadTextFile, stripExtension } from "@/lib/fileUtils";
+import { speakerLabelledText } from "@shared/speakers";
+import { formatSubtitles, subtitleMimeTypes } from "@shared/subtitles";
+import {
+  defaultTranscriptionOptions,
+  supportedFormatAccept,
+  supportedFormatLabels,
+  type TranscriptionOptions,
+} from "@shared/schema";
 
 const TranscriptionTool = () => {
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Files picked in step 1; more than one are transcribed as a batch
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [transcriptionOptions, setTranscriptionOptions] = useState<TranscriptionOptions>(defaultTranscriptionOptions);
   const [fileError, setFileError] = useState<string>("");
   const [dragOver, setDragOver] = useState<boolean>(false);
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
-
-  const [activeTab, setActiveTab] = useState<"transcript" | "summary">("transcript");
   
   const { 
     transcribe, 
     transcriptionText, 
+    transcriptionSegments,
+    transcriptionWords,
     transcriptionError, 
+    transcriptionLanguage,
+    transcriptionMode,
     transcriptionProgress,
     wasCompressed,
+    progressEvents,
+    transcriptId,
+    mediaInfo,
+    uploadProgress,
+    isReconnecting,
     isTranscribing 
   } = useTranscription({
-    onTranscriptionComplete: (text) => {
+    onTranscriptionComplete: (text, savedTranscriptId) => {
       setStep(3);
       // Auto-generate summary when transcription is complete
       if (text) {
-        generateSummary(text);
+        generateSummary(text, savedTranscriptId);
       }
     }
   });
   
   const {
     generateSummary,
+    cancelSummary,
     summaryData,
     summaryError,
+    summaryProgress,
     isSummarizing
   } = useSummary();
 
+  const batch = useBatchTranscription();
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    validateAndSetFile(file);
+    validateAndAddFiles(Array.from(event.target.files ?? []));
+    // Let the same file be picked again after removing it
+    event.target.value = "";
   };
 
   const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     setDragOver(false);
-    const file = event.dataTransfer.files[0];
-    validateAndSetFile(file);
+    validateAndAddFiles(Array.from(event.dataTransfer.files));
   };
 
-  const validateAndSetFile = (file?: File) => {
+  const validateAndAddFiles = (files: File[]) => {
     setFileError("");
     
-    if (!file) {
+    if (files.length === 0) {
       return;
     }
     
-    const error = validateAudioFile(file);
-    if (error) {
-      setFileError(error);
-      return;
+    // Valid files are added even when others in the same drop are rejected
+    const errors: string[] = [];
+    const accepted = files.filter((file) => {
+      const error = validateAudioFile(file);
+      if (error) {
+        errors.push(files.length > 1 ? `${file.name}: ${error}` : error);
+      }
+      return !error;
+    });
+    
+    if (errors.length > 0) {
+      setFileError(errors.join(" "));
     }
     
-    setSelectedFile(file);
+    setSelectedFiles((current) => [
+      ...current,
+      ...accepted.filter((file) => !current.some((existing) => existing.name === file.name && existing.size === file.size)),
+    ]);
   };
 
-  const removeFile = () => {
-    setSelectedFile(null);
+  const removeFile = (index: number) => {
+    setSelectedFiles((current) => current.filter((_, i) => i !== index));
     setFileError("");
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
   };
 
   const startTranscription = async () => {
-    if (!selectedFile || fileError) {
+    if (selectedFiles.length === 0) {
       return;
     }
     
     setStep(2);
-    await transcribe(selectedFile);
+    if (selectedFiles.length > 1) {
+      await batch.start(selectedFiles, transcriptionOptions);
+      return;
+    }
+    
+    setSelectedFile(selectedFiles[0]);
+    await transcribe(selectedFiles[0], transcriptionOptions);
+  };
+
+  // A finished microphone take goes straight into the same flow as an upload
+  const transcribeRecording = async (file: File) => {
+    setSelectedFile(file);
+    setFileError("");
+    setStep(2);
+    await transcribe(file, transcriptionOptions);
   };
 
   const copyTranscription = () => {
@@ -114,34 +167,27 @@ const TranscriptionTool = () => {
       });
   };
 
-  const downloadTranscription = () => {
+  const downloadTranscription = (format: DownloadFormat) => {
     if (!transcriptionText || !selectedFile) return;
     
-    const blob = new Blob([transcriptionText], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    
     // Create filename from original audio filename
-    const filenameParts = selectedFile.name.split(".");
-    filenameParts.pop(); // Remove extension
-    const transcriptFilename = `${filenameParts.join(".")}_transcript.txt`;
+    const baseName = stripExtension(selectedFile.name);
     
-    a.href = url;
-    a.download = transcriptFilename;
-    document.body.appendChild(a);
-    a.click();
+    if (format === "txt") {
+      downloadTextFile(speakerLabelledText(transcriptionText, transcriptionSegments), `${baseName}_transcript.txt`);
+      return;
+    }
     
-    // Cleanup
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, 0);
+    const subtitles = formatSubtitles(format, transcriptionSegments, transcriptionWords);
+    downloadTextFile(subtitles, `${baseName}.${format}`, subtitleMimeTypes[format]);
   };
 
   const resetApp = () => {
     setStep(1);
     setSelectedFile(null);
+    setSelectedFiles([]);
     setFileError("");
+    batch.reset();
   };
 
   return (
@@ -199,94 +245,131 @@ const TranscriptionTool = () => {
         </div>
 
         <div className="p-6">
-          {/* Step 1: File Upload */}
+          {/* Step 1: Upload, record or transcribe live */}
           {step === 1 && (
-            <div className="space-y-6">
-              <div
-                onDragOver={(e) => {
-                  e.preventDefault();
-                  setDragOver(true);
-                }}
-                onDragLeave={(e) => {
-                  e.preventDefault();
-                  setDragOver(false);
-                }}
-                onDrop={handleFileDrop}
-                className={`border-2 border-dashed ${
-                  dragOver ? "border-primary bg-primary/5" : "border-slate-200"
-                } rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer transition-all duration-300`}
-                onClick={() => fileInputRef.current?.click()}
-              >
-                <Upload className="h-12 w-12 text-slate-400 mb-3" />
-                <p className="text-sm text-slate-700 font-medium mb-1">
-                  Drag and drop your audio file, or click to browse
-                </p>
-                <p className="text-xs text-slate-500">
-                  Supports MP3, WAV, M4A (Max 100MB - large files automatically compressed)
-                </p>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  className="hidden"
-                  onChange={handleFileSelect}
-                  accept=".mp3,.wav,.m4a,audio/mpeg,audio/wav,audio/mp4,audio/x-m4a"
-                />
+            <Tabs defaultValue="upload" className="w-full">
+              <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsTrigger value="upload" className="flex items-center">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload
+                </TabsTrigger>
+                <TabsTrigger value="record" className="flex items-center">
+                  <Mic className="h-4 w-4 mr-2" />
+                  Record
+                </TabsTrigger>
+                <TabsTrigger value="live" className="flex items-center">
+                  <Radio className="h-4 w-4 mr-2" />
+                  Live
+                </TabsTrigger>
+              </TabsList>
+
+              <div className="mb-6">
+                <TranscriptionOptionsForm value={transcriptionOptions} onChange={setTranscriptionOptions} />
               </div>
+
+              <TabsContent value="upload" className="mt-0">
+                <div className="space-y-6">
+                  <div
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOver(true);
+                    }}
+                    onDragLeave={(e) => {
+                      e.preventDefault();
+                      setDragOver(false);
+                    }}
+                    onDrop={handleFileDrop}
+                    className={`border-2 border-dashed ${
+                      dragOver ? "border-primary bg-primary/5" : "border-slate-200"
+                    } rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer transition-all duration-300`}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="h-12 w-12 text-slate-400 mb-3" />
+                    <p className="text-sm text-slate-700 font-medium mb-1">
+                      Drag and drop your audio files, or click to browse
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      Supports {supportedFormatLabels} (Max 100MB - large files automatically compressed)
+                    </p>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      className="hidden"
+                      onChange={handleFileSelect}
+                      accept={supportedFormatAccept}
+                      multiple
+                    />
+                  </div>
               
-              {selectedFile && (
-                <div className="bg-slate-50 p-4 rounded-md">
-                  <div className="flex items-start space-x-3">
-                    <FileAudio className="h-6 w-6 text-slate-400 mt-0.5" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-slate-900 truncate">
-                        {selectedFile.name}
-                      </p>
-                      <p className="text-xs text-slate-500">
-                        {formatFileSize(selectedFile.size)}
-                      </p>
+                  {selectedFiles.map((file, index) => (
+                    <div key={`${file.name}-${file.size}`} className="bg-slate-50 p-4 rounded-md">
+                      <div className="flex items-start space-x-3">
+                        <FileAudio className="h-6 w-6 text-slate-400 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-slate-900 truncate">
+                            {file.name}
+                          </p>
+                          <p className="text-xs text-slate-500">
+                            {formatFileSize(file.size)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeFile(index);
+                          }}
+                          className="text-slate-400 hover:text-slate-500"
+                        >
+                          <X className="h-5 w-5" />
+                        </button>
+                      </div>
                     </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        removeFile();
-                      }}
-                      className="text-slate-400 hover:text-slate-500"
-                    >
-                      <X className="h-5 w-5" />
-                    </button>
-                  </div>
-                </div>
-              )}
+                  ))}
 
-              {fileError && (
-                <div className="rounded-md bg-red-50 p-4">
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                    <div className="ml-3">
-                      <p className="text-sm text-red-700">{fileError}</p>
+                  {fileError && (
+                    <div className="rounded-md bg-red-50 p-4">
+                      <div className="flex">
+                        <div className="flex-shrink-0">
+                          <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                          </svg>
+                        </div>
+                        <div className="ml-3">
+                          <p className="text-sm text-red-700">{fileError}</p>
+                        </div>
+                      </div>
                     </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={startTranscription}
+                      disabled={selectedFiles.length === 0}
+                      className={selectedFiles.length === 0 ? "bg-slate-300 cursor-not-allowed" : ""}
+                    >
+                      {selectedFiles.length > 1 ? `Transcribe ${selectedFiles.length} Files` : "Continue to Transcription"}
+                    </Button>
                   </div>
                 </div>
-              )}
+              </TabsContent>
 
-              <div className="flex justify-end">
-                <Button
-                  onClick={startTranscription}
-                  disabled={!selectedFile || !!fileError}
-                  className={!selectedFile || !!fileError ? "bg-slate-300 cursor-not-allowed" : ""}
-                >
-                  Continue to Transcription
-                </Button>
-              </div>
-            </div>
+              <TabsContent value="record" className="mt-0">
+                <Recorder onUseRecording={transcribeRecording} />
+              </TabsContent>
+
+              <TabsContent value="live" className="mt-0">
+                <LiveTranscriber options={transcriptionOptions} />
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {/* Step 2 for several files: one row per file */}
+          {step === 2 && batch.items.length > 0 && (
+            <BatchQueue items={batch.items} isRunning={batch.isRunning} transcriptIds={batch.transcriptIds} />
           )}
 
           {/* Step 2: Transcription Process */}
-          {step === 2 && (
+          {step === 2 && batch.items.length === 0 && (
             <div className="space-y-6">
               {selectedFile && (
                 <div className="bg-slate-50 p-4 rounded-md">
@@ -299,6 +382,17 @@ const TranscriptionTool = () => {
                       <p className="text-xs text-slate-500">
                         {formatFileSize(selectedFile.size)}
                       </p>
+                      {mediaInfo ? (
+                        <div className="mt-1">
+                          <MediaInfoDetails media={mediaInfo} />
+                        </div>
+                      ) : isReconnecting ? (
+                        <p className="mt-1 text-xs text-amber-600">Connection lost, resuming the upload...</p>
+                      ) : (
+                        <p className="mt-1 text-xs text-slate-400">
+                          {uploadProgress < 100 ? "Uploading..." : "Checking file..."}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -313,14 +407,43 @@ const TranscriptionTool = () => {
                 </div>
                 <h3 className="text-lg font-medium text-slate-900">Transcribing your audio</h3>
                 <p className="mt-1 text-sm text-slate-500">This may take a few minutes depending on the file size.</p>
+
               </div>
 
               <div className="bg-slate-50 rounded-md p-4">
                 <div className="mb-2 flex justify-between items-center">
-                  <p className="text-sm font-medium text-slate-700">Processing progress</p>
-                  <p className="text-sm font-medium text-slate-900">{`${Math.round(transcriptionProgress)}%`}</p>
+                  {/* Upload progress until the server has the file and a job is running */}
+                  <p className="text-sm font-medium text-slate-700">{mediaInfo ? "Processing progress" : "Upload progress"}</p>
+                  <p className="text-sm font-medium text-slate-900">{`${Math.round(mediaInfo ? transcriptionProgress : uploadProgress)}%`}</p>
                 </div>
-                <Progress value={transcriptionProgress} className="w-full h-2.5" />
+                <Progress value={mediaInfo ? transcriptionProgress : uploadProgress} className="w-full h-2.5" />
+                {progressEvents.length > 0 && (
+                  <ul className="mt-4 space-y-1.5">
+                    {progressEvents.map((event, index) => {
+                      const isLatest = index === progressEvents.length - 1;
+                      return (
+                        <li key={index} className="flex items-center text-sm">
+                          {event.type === "stalled" ? (
+                            <AlertTriangle className="h-4 w-4 mr-2 text-amber-500 flex-shrink-0" />
+                          ) : event.type === "failed" ? (
+                            <X className="h-4 w-4 mr-2 text-red-500 flex-shrink-0" />
+                          ) : isLatest ? (
+                            <span className="h-4 w-4 mr-2 flex-shrink-0 rounded-full border-2 border-t-transparent border-primary animate-spin"></span>
+                          ) : (
+                            <Check className="h-4 w-4 mr-2 text-green-500 flex-shrink-0" />
+                          )}
+                          <span className={
+                            event.type === "stalled" ? "text-amber-700" :
+                            event.type === "failed" ? "text-red-700" :
+                            isLatest ? "text-slate-900 font-medium" : "text-slate-500"
+                          }>
+                            {event.message}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
               </div>
             </div>
           )}
@@ -346,7 +469,12 @@ const TranscriptionTool = () => {
               {!transcriptionError && (
                 <>
                   <div className="bg-slate-50 p-4 rounded-t-md border border-slate-200 flex justify-between items-center">
-                    <h3 className="text-sm font-medium text-slate-900">Results</h3>
+                    <div>
+                      <h3 className="text-sm font-medium text-slate-900">Results</h3>
+                      <p className="text-xs text-slate-500">
+                        <TranscriptLanguage language={transcriptionLanguage} mode={transcriptionMode} />
+                      </p>
+                    </div>
                     <div className="flex space-x-2">
                       <Button 
                         onClick={copyTranscription} 
@@ -357,14 +485,10 @@ const TranscriptionTool = () => {
                         <Copy className="h-4 w-4 mr-1" />
                         Copy
                       </Button>
-                      <Button 
-                        onClick={downloadTranscription} 
-                        size="sm" 
-                        className="h-8"
-                      >
-                        <Download className="h-4 w-4 mr-1" />
-                        Download
-                      </Button>
+                      <DownloadMenu
+                        onDownload={downloadTranscription}
+                        subtitlesAvailable={transcriptionSegments.length > 0}
+                      />
                     </div>
                   </div>
                   
@@ -377,140 +501,17 @@ const TranscriptionTool = () => {
                     </div>
                   )}
                   
-                  <Tabs 
-                    value={activeTab} 
-                    onValueChange={(value) => setActiveTab(value as "transcript" | "summary")}
-                    className="w-full"
-                  >
-                    <TabsList className="w-full border-x border-t border-slate-200 bg-white rounded-none">
-                      <TabsTrigger 
-                        value="transcript" 
-                        className="flex items-center data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary"
-                      >
-                        <FileText className="h-4 w-4 mr-2" />
-                        Transcript
-                      </TabsTrigger>
-                      <TabsTrigger 
-                        value="summary" 
-                        className="flex items-center data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary"
-                        onClick={() => {
-                          // Trigger summary generation if we don't have a summary yet and we're not already generating one
-                          if (!summaryData && !isSummarizing && transcriptionText) {
-                            generateSummary(transcriptionText);
-                          }
-                        }}
-                      >
-                        <MessageSquareText className="h-4 w-4 mr-2" />
-                        Summary
-                        {isSummarizing && (
-                          <span className="ml-2 h-4 w-4 rounded-full border-2 border-t-transparent border-primary animate-spin"></span>
-                        )}
-                      </TabsTrigger>
-                    </TabsList>
-                    
-                    <TabsContent value="transcript" className="mt-0">
-                      <div className="border border-slate-200 border-t-0 rounded-b-md h-64 overflow-y-auto p-4 bg-white">
-                        <p className="text-sm text-slate-700 whitespace-pre-line">
-                          {transcriptionText}
-                        </p>
-                      </div>
-                    </TabsContent>
-                    
-                    <TabsContent value="summary" className="mt-0">
-                      <div className="border border-slate-200 border-t-0 rounded-b-md h-64 overflow-y-auto p-4 bg-white">
-                        {summaryError && (
-                          <div className="rounded-md bg-red-50 p-3 mb-3">
-                            <div className="flex">
-                              <div className="flex-shrink-0">
-                                <svg className="h-5 w-5 text-red-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                                </svg>
-                              </div>
-                              <div className="ml-3">
-                                <p className="text-sm text-red-700">{summaryError}</p>
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                        
-                        {isSummarizing && !summaryData && !summaryError && (
-                          <div className="flex flex-col items-center justify-center h-48">
-                            <div className="animate-spin rounded-full h-10 w-10 border-4 border-primary border-t-transparent mb-3"></div>
-                            <p className="text-sm text-slate-700">Generating summary...</p>
-                          </div>
-                        )}
-                        
-                        {!isSummarizing && !summaryData && !summaryError && transcriptionText && (
-                          <div className="flex flex-col items-center justify-center h-48">
-                            <p className="text-sm text-slate-700 mb-3">No summary generated yet.</p>
-                            <Button
-                              onClick={() => generateSummary(transcriptionText)}
-                              size="sm"
-                              className="flex items-center"
-                            >
-                              <MessageSquareText className="h-4 w-4 mr-2" />
-                              Generate Summary
-                            </Button>
-                          </div>
-                        )}
-                        
-                        {summaryData && (
-                          <div className="space-y-4">
-                            <div className="flex justify-end">
-                              <Button
-                                onClick={() => {
-                                  if (transcriptionText) {
-                                    generateSummary(transcriptionText);
-                                  }
-                                }}
-                                variant="outline"
-                                size="sm"
-                                className="mb-2 h-8"
-                                disabled={isSummarizing}
-                              >
-                                <svg className="h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                                  <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
-                                </svg>
-                                Regenerate
-                              </Button>
-                            </div>
-                        
-                            <div>
-                              <h4 className="text-sm font-medium text-slate-900 mb-2">Key Points</h4>
-                              <ul className="list-disc pl-5 space-y-1">
-                                {summaryData.keyPoints.map((point, index) => (
-                                  <li key={index} className="text-sm text-slate-700">{point}</li>
-                                ))}
-                              </ul>
-                            </div>
-                            
-                            <div>
-                              <h4 className="text-sm font-medium text-slate-900 mb-2">Topics Covered</h4>
-                              <div className="space-y-2">
-                                {summaryData.topics.map((topic, index) => (
-                                  <div key={index} className="bg-slate-50 p-2 rounded-md">
-                                    <p className="font-medium text-sm text-slate-900">{topic.topic}</p>
-                                    <p className="text-sm text-slate-700">{topic.description}</p>
-                                  </div>
-                                ))}
-                              </div>
-                            </div>
-                            
-                            {summaryData.actionItems && summaryData.actionItems.length > 0 && (
-                              <div>
-                                <h4 className="text-sm font-medium text-slate-900 mb-2">Action Items</h4>
-                                <ul className="list-disc pl-5 space-y-1">
-                                  {summaryData.actionItems.map((item, index) => (
-                                    <li key={index} className="text-sm text-slate-700">{item}</li>
-                                  ))}
-                                </ul>
-                              </div>
-                            )}
-                          </div>
-                        )}
-                      </div>
-                    </TabsContent>
-                  </Tabs>
+                  <TranscriptTabs
+                    transcriptId={transcriptId}
+                    transcriptText={transcriptionText}
+                    segments={transcriptionSegments}
+                    summaryData={summaryData}
+                    summaryError={summaryError}
+                    isSummarizing={isSummarizing}
+                    summaryProgress={summaryProgress}
+                    onGenerateSummary={(template) => generateSummary(transcriptionText, transcriptId, template)}
+                    onCancelSummary={cancelSummary}
+                  />
                 </>
               )}
             </div>
@@ -525,7 +526,7 @@ const TranscriptionTool = () => {
             <h2 className="text-lg font-medium text-slate-900">About this tool</h2>
           </div>
           <div className="px-6 py-5 text-sm text-slate-700">
-            <p>This audio transcription tool uses OpenAI's Whisper API to convert spoken language in audio files to text. It supports common audio formats including MP3, WAV, and M4A with a maximum file size of 100MB. Files larger than 25MB are automatically compressed to meet OpenAI's API requirements.</p>
+            <p>This audio transcription tool uses OpenAI's Whisper API to convert spoken language in audio files to text. It supports {supportedFormatLabels} files with a maximum file size of 100MB; for videos only the audio track is transcribed. Files larger than 25MB are automatically compressed to meet OpenAI's API requirements.</p>
             <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-4">
               <div className="bg-slate-50 rounded-md p-4">
                 <h3 className="text-sm font-medium text-slate-900 mb-1">Supported Languages</h3>
@@ -541,7 +542,7 @@ const TranscriptionTool = () => {
               </div>
               <div className="bg-slate-50 rounded-md p-4">
                 <h3 className="text-sm font-medium text-slate-900 mb-1">Privacy</h3>
-                <p className="text-sm text-slate-600">Files are processed securely and not stored after transcription</p>
+                <p className="text-sm text-slate-600">Audio files are deleted after transcription; only the transcript and summary are saved</p>
               </div>
             </div>
           </div>
@@ -0,0 +1,112 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import { answerQuestion, retrievePassages } from "./ask";
+import { setProviders } from "./providers";
+import { LocalAnswerProvider } from "./providers/localAnswer";
+import { OpenAIAnswerProvider } from "./providers/openai";
+import { UpstreamError } from "./resilience";
+
+const transcript = {
+  text: "",
+  segments: [
+    ["Priya", "Welcome everyone, let's start with the roadmap."],
+    ["Priya", "We want to ship the mobile app in March."],
+    ["Sam", "The budget for the mobile app is tight this quarter."],
+    ["Sam", "We need another forty thousand dollars for contractors."],
+    ["Priya", "Marketing budgets were already cut last month."],
+    ["Lee", "I can talk to finance about moving money from travel."],
+    ["Priya", "Great, let's also review hiring plans next week."],
+    ["Sam", "Two backend engineers start on Monday."],
+    ["Lee", "Onboarding docs are almost finished."],
+    ["Priya", "Thanks all, see you Thursday."],
+  ].map(([speaker, text], i) => ({ start: i * 5, end: i * 5 + 5, text, speaker })),
+};
+
+// Chat completion content the fake OpenAI server answers with
+let completion = "";
+let fakeOpenAI: http.Server;
+
+before(async () => {
+  fakeOpenAI = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "gpt-4o",
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: completion } }],
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => fakeOpenAI.listen(0, resolve));
+  // Read when the client is first created
+  process.env.OPENAI_BASE_URL = `http://localhost:${(fakeOpenAI.address() as AddressInfo).port}/v1`;
+  process.env.OPENAI_API_KEY = "test";
+});
+
+after(async () => {
+  setProviders({ answer: null });
+  await new Promise((resolve) => fakeOpenAI.close(resolve));
+});
+
+test("retrievePassages finds the segments about the question, with their neighbours", () => {
+  const [best, ...rest] = retrievePassages("What did they say about the budget?", transcript);
+
+  assert.equal(rest.length, 0);
+  assert.equal(best.start, 5);
+  assert.equal(best.end, 30);
+  assert.match(best.text, /^Priya: We want to ship/);
+});
+
+test("retrievePassages ranks a follow-up by the previous question", () => {
+  const [best] = retrievePassages("And who raised that?", transcript, "What about the budget?");
+
+  assert.ok(best.score > 0);
+  assert.match(best.text, /budget/);
+});
+
+test("answerQuestion cites the passages the answer is based on", async () => {
+  setProviders({ answer: new LocalAnswerProvider() });
+  const { answer, citations } = await answerQuestion("Who starts on Monday?", transcript);
+
+  assert.match(answer, /Two backend engineers start on Monday/);
+  assert.deepEqual(citations.map((citation) => citation.start), [30]);
+});
+
+test("answerQuestion says so when the transcript doesn't cover the question", async () => {
+  setProviders({ answer: new LocalAnswerProvider() });
+  const { citations } = await answerQuestion("Any word on pizza?", transcript);
+
+  assert.deepEqual(citations, []);
+});
+
+test("the OpenAI answer provider reads a well-formed answer", async () => {
+  completion = JSON.stringify({ answer: "Sam said it is tight.", sources: [1, 1] });
+  const passages = retrievePassages("budget", transcript);
+
+  const answer = await new OpenAIAnswerProvider().answer("budget", passages, []);
+
+  assert.deepEqual(answer, { answer: "Sam said it is tight.", sources: [1] });
+});
+
+for (const [name, content] of [
+  ["truncated JSON", '{"answer": "Sam said'],
+  ["an answer of the wrong shape", JSON.stringify({ reply: "Sam said it is tight." })],
+  ["a citation of an excerpt it wasn't given", JSON.stringify({ answer: "Sam said it is tight.", sources: [7] })],
+]) {
+  test(`the OpenAI answer provider rejects ${name}`, async () => {
+    completion = content;
+    const passages = retrievePassages("budget", transcript);
+
+    await assert.rejects(
+      new OpenAIAnswerProvider().answer("budget", passages, []),
+      (error) => error instanceof UpstreamError && error.code === "UPSTREAM_REJECTED",
+    );
+  });
+}
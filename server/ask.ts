@@ -0,0 +1,221 @@
+import type { Citation, Transcript, TranscriptQuestion } from "@shared/schema";
+import { getAnswerProvider, type Passage } from "./providers";
+import { UpstreamError } from "./resilience";
+
+// Segments that best match a question, each sent with its neighbours for context
+const ASK_MAX_PASSAGES = parseInt(process.env.ASK_MAX_PASSAGES || "8", 10) || 8;
+
+// Most transcript text sent with one question, in characters
+const ASK_CONTEXT_CHARS = parseInt(process.env.ASK_CONTEXT_CHARS || "12000", 10) || 12000;
+
+// Earlier questions and answers sent along, so follow-up questions make sense
+const ASK_HISTORY_TURNS = 5;
+
+// Longest quote kept with a citation
+const CITATION_CHARS = 300;
+
+// Words that say nothing about what a question is after
+const stopWords = new Set([
+  "the", "and", "for", "with", "that", "this", "have", "has", "had", "was", "are",
+  "were", "been", "what", "which", "when", "where", "who", "whom", "why", "how",
+  "did", "does", "they", "them", "their", "there", "about", "say", "said", "says",
+  "from", "into", "any", "anyone", "anything", "some", "you", "your", "our", "its",
+  "can", "could", "would", "should", "will", "tell", "talk", "talked", "mention",
+  "mentioned", "also", "just", "then", "than", "she", "her", "his", "him",
+]);
+
+// Words that refer back to an earlier question, as in "and who owns that?"
+const followUpPattern = /\b(it|that|this|these|those|he|she|him|her|there|then)\b/i;
+
+// A piece of the transcript that is kept whole
+interface Unit {
+  text: string;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+// Rough stem, so "budgets" and "budgeting" match "budget"
+function stem(word: string): string {
+  const stemmed = word.replace(/(?:ing|ed|es|s)$/, "");
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+function termsOf(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .filter((word) => word.length >= 3 && !stopWords.has(word))
+    .map(stem);
+}
+
+// Segments when there are any, otherwise sentences, which have no timings
+function unitsOf(transcript: Pick<Transcript, "text" | "segments">): Unit[] {
+  if (transcript.segments && transcript.segments.length > 0) {
+    return transcript.segments.map(({ text, speaker, start, end }) => ({ text, speaker, start, end }));
+  }
+  return transcript.text
+    .split(/(?<=[.!?])\s+/)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ text }));
+}
+
+// Text of consecutive units with a "Speaker: " line at each change of speaker
+function passageText(units: Unit[]): string {
+  const lines: string[] = [];
+  units.forEach((unit, i) => {
+    if (unit.speaker && unit.speaker !== units[i - 1]?.speaker) {
+      lines.push(`${unit.speaker}: ${unit.text}`);
+    } else if (lines.length > 0) {
+      lines[lines.length - 1] += ` ${unit.text}`;
+    } else {
+      lines.push(unit.text);
+    }
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Find the parts of a transcript that best answer a question
+ * Units are ranked by the question's words, rarer words counting for more,
+ * and the best are widened by a unit either side and joined where they overlap.
+ * A question with no matching words that refers back, e.g. "and who owns
+ * that?", is ranked by the previous question's words instead. When nothing
+ * matches, passages are taken from across the whole transcript.
+ * @param question The question being asked
+ * @param transcript The transcript's text and segments
+ * @param previousQuestion The question asked before, which gives a follow-up its subject
+ * @returns Passages, most relevant first, numbered from 1
+ */
+export function retrievePassages(
+  question: string,
+  transcript: Pick<Transcript, "text" | "segments">,
+  previousQuestion?: string,
+): Passage[] {
+  const units = unitsOf(transcript);
+  if (units.length === 0) return [];
+
+  const unitTerms = units.map((unit) => {
+    const counts = new Map<string, number>();
+    for (const term of termsOf(unit.text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of unitTerms) {
+    for (const term of Array.from(counts.keys())) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const rank = (query: string) => {
+    const terms = Array.from(new Set(termsOf(query)));
+    return unitTerms
+      .map((counts, index) => {
+        let score = 0;
+        for (const term of terms) {
+          const count = counts.get(term);
+          if (!count) continue;
+          score += Math.log(1 + units.length / documentFrequency.get(term)!) * (count / (count + 1));
+        }
+        return { index, score };
+      })
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, ASK_MAX_PASSAGES);
+  };
+
+  let hits = rank(question);
+  if (hits.length === 0 && previousQuestion && followUpPattern.test(question)) {
+    hits = rank(previousQuestion);
+  }
+
+  if (hits.length === 0) {
+    const count = Math.min(ASK_MAX_PASSAGES, units.length);
+    hits = Array.from({ length: count }, (_, i) => ({
+      index: Math.floor((i * units.length) / count),
+      score: 0,
+    }));
+  }
+
+  // Widen each hit and join windows that overlap
+  const windows = hits
+    .map(({ index, score }) => ({ from: Math.max(0, index - 1), to: Math.min(units.length - 1, index + 1), score }))
+    .sort((a, b) => a.from - b.from);
+  const merged: typeof windows = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.from <= last.to) {
+      last.to = Math.max(last.to, window.to);
+      last.score = Math.max(last.score, window.score);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  const passages: Passage[] = [];
+  let chars = 0;
+  for (const window of merged.sort((a, b) => b.score - a.score || a.from - b.from)) {
+    const span = units.slice(window.from, window.to + 1);
+    const text = passageText(span);
+    // The best passage is always sent, however long
+    if (passages.length > 0 && chars + text.length > ASK_CONTEXT_CHARS) break;
+    chars += text.length;
+
+    const speakers = new Set(span.map((unit) => unit.speaker));
+    passages.push({
+      id: passages.length + 1,
+      text,
+      speaker: speakers.size === 1 ? span[0].speaker : undefined,
+      start: span[0].start,
+      end: span[span.length - 1].end,
+      score: window.score,
+    });
+  }
+
+  return passages;
+}
+
+function toCitation(passage: Passage): Citation {
+  const text = passage.text.length > CITATION_CHARS
+    ? `${passage.text.slice(0, CITATION_CHARS).trimEnd()}…`
+    : passage.text;
+  return { start: passage.start, end: passage.end, speaker: passage.speaker, text };
+}
+
+/**
+ * Answer a question about a transcript using the configured answer provider
+ * @param question The question being asked
+ * @param transcript The transcript's text and segments
+ * @param history Earlier questions about the transcript, oldest first
+ * @returns The answer and the parts of the transcript it cites, in time order when
+ * the transcript has timings
+ */
+export async function answerQuestion(
+  question: string,
+  transcript: Pick<Transcript, "text" | "segments">,
+  history: TranscriptQuestion[] = [],
+): Promise<{ answer: string; citations: Citation[] }> {
+  try {
+    const recent = history.slice(-ASK_HISTORY_TURNS);
+    const passages = retrievePassages(question, transcript, recent[recent.length - 1]?.question);
+
+    const { answer, sources } = await getAnswerProvider().answer(
+      question,
+      passages,
+      recent.map((turn) => ({ question: turn.question, answer: turn.answer })),
+    );
+
+    // Providers check the ids they return; this keeps one citation per passage in time order
+    const cited = passages
+      .filter((passage) => sources.includes(passage.id))
+      .sort((a, b) => (a.start ?? 0) - (b.start ?? 0) || a.id - b.id);
+
+    return { answer, citations: cited.map(toCitation) };
+  } catch (error: any) {
+    console.error("Error answering question:", error);
+    if (error instanceof UpstreamError) {
+      throw error;
+    }
+    throw new Error(error.message || "Failed to answer question");
+  }
+}
@@ -0,0 +1,481 @@
+import fs from "fs";
+import path from "path";
+import { spawn } from "child_process";
+import type { MediaInfo } from "@shared/schema";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// Longest a single ffmpeg/ffprobe run may take before it is killed
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.FFMPEG_TIMEOUT_MS || "600000", 10) || 600000;
+
+// Largest file an ffmpeg run may write; our 100MB uploads never need more than this
+const DEFAULT_MAX_OUTPUT_BYTES = 200 * 1024 * 1024;
+
+// Largest amount of stdout we keep from a run (ffprobe's JSON is a few KB)
+const MAX_STDOUT_BYTES = 1024 * 1024;
+
+// Only the tail of stderr is kept; ffmpeg prints the actual error last
+const MAX_STDERR_CHARS = 8000;
+
+// How often the output file is checked against the size cap
+const SIZE_CHECK_INTERVAL_MS = 500;
+
+// Speech-optimised encoding used for compression and chunking:
+// mono 12 kbps Opus in VoIP mode, with video and metadata dropped
+const SPEECH_ENCODING: TranscodeOptions = {
+  codec: "libopus",
+  bitrate: "12k",
+  channels: 1,
+  application: "voip",
+};
+
+export type AudioErrorCode =
+  // The ffmpeg/ffprobe binary could not be started
+  | "TOOL_NOT_FOUND"
+  // The run took longer than its time limit
+  | "TIMEOUT"
+  // The output file grew past its size cap
+  | "OUTPUT_TOO_LARGE"
+  // The input is not a readable media file
+  | "INVALID_INPUT"
+  // Anything else; see stderr
+  | "FAILED";
+
+/**
+ * Failure of an ffmpeg or ffprobe run, with the tail of its stderr
+ */
+export class AudioProcessingError extends Error {
+  code: AudioErrorCode;
+  tool: string;
+  exitCode: number | null;
+  stderr: string;
+
+  constructor(code: AudioErrorCode, message: string, details: { tool: string; exitCode?: number | null; stderr?: string }) {
+    super(message);
+    this.name = "AudioProcessingError";
+    this.code = code;
+    this.tool = details.tool;
+    this.exitCode = details.exitCode ?? null;
+    this.stderr = details.stderr || "";
+  }
+}
+
+interface RunOptions {
+  timeoutMs?: number;
+  // File the tool writes to, watched against maxOutputBytes
+  outputPath?: string;
+  maxOutputBytes?: number;
+}
+
+// Messages ffmpeg prints when the input itself is the problem
+const invalidInputPatterns = [
+  /Invalid data found when processing input/i,
+  /No such file or directory/i,
+  /does not contain any stream/i,
+  /could not find codec parameters/i,
+  /moov atom not found/i,
+];
+
+// Last meaningful line of stderr, used as the error message
+function lastStderrLine(stderr: string): string {
+  const lines = stderr.split("\n").map((line) => line.trim()).filter(Boolean);
+  return lines[lines.length - 1] || "no output";
+}
+
+/**
+ * Run ffmpeg or ffprobe with an argument array (never through a shell)
+ * The process is killed when it exceeds its time limit or its output file
+ * grows past the size cap
+ * @param tool Path to the binary
+ * @param args Command line arguments
+ * @param options Time limit and output size cap
+ * @returns Everything the tool wrote to stdout, and the tail of stderr
+ */
+function runTool(tool: string, args: string[], options: RunOptions = {}): Promise<{ stdout: string; stderr: string }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  const toolName = path.basename(tool);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(tool, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    let stdout = "";
+    let stdoutBytes = 0;
+    let stderr = "";
+    // Set when we kill the process ourselves so the exit is reported correctly
+    let killedFor: AudioProcessingError | null = null;
+
+    const kill = (error: AudioProcessingError) => {
+      if (killedFor) return;
+      killedFor = error;
+      child.kill("SIGKILL");
+    };
+
+    child.stdout.on("data", (data: Buffer) => {
+      stdoutBytes += data.length;
+      if (stdoutBytes > MAX_STDOUT_BYTES) {
+        kill(new AudioProcessingError("OUTPUT_TOO_LARGE", `${toolName} printed more output than expected`, { tool: toolName }));
+        return;
+      }
+      stdout += data.toString();
+    });
+
+    child.stderr.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-MAX_STDERR_CHARS);
+    });
+
+    const timer = setTimeout(() => {
+      kill(new AudioProcessingError("TIMEOUT", `${toolName} did not finish within ${timeoutMs / 1000}s`, { tool: toolName }));
+    }, timeoutMs);
+
+    const sizeWatcher = options.outputPath
+      ? setInterval(() => {
+          fs.stat(options.outputPath!, (err, stats) => {
+            if (!err && stats.size > maxOutputBytes) {
+              kill(new AudioProcessingError(
+                "OUTPUT_TOO_LARGE",
+                `${toolName} output exceeded ${Math.round(maxOutputBytes / (1024 * 1024))}MB`,
+                { tool: toolName },
+              ));
+            }
+          });
+        }, SIZE_CHECK_INTERVAL_MS)
+      : undefined;
+
+    const finish = () => {
+      clearTimeout(timer);
+      clearInterval(sizeWatcher);
+    };
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      finish();
+      reject(
+        error.code === "ENOENT"
+          ? new AudioProcessingError("TOOL_NOT_FOUND", `${toolName} is not installed or not on the PATH`, { tool: toolName })
+          : new AudioProcessingError("FAILED", `${toolName} could not be started: ${error.message}`, { tool: toolName }),
+      );
+    });
+
+    child.on("close", (exitCode) => {
+      finish();
+
+      if (killedFor) {
+        killedFor.stderr = stderr;
+        return reject(killedFor);
+      }
+
+      if (exitCode !== 0) {
+        const code = invalidInputPatterns.some((pattern) => pattern.test(stderr)) ? "INVALID_INPUT" : "FAILED";
+        return reject(
+          new AudioProcessingError(code, `${toolName} failed: ${lastStderrLine(stderr)}`, { tool: toolName, exitCode, stderr }),
+        );
+      }
+
+      resolve({ stdout, stderr });
+    });
+  });
+}
+
+/**
+ * Run ffmpeg writing to outputPath, removing the output if the run fails
+ * or leaves an empty file behind
+ */
+async function runFfmpeg(args: string[], outputPath: string, options: RunOptions = {}): Promise<string> {
+  try {
+    await runTool(FFMPEG_PATH, ["-hide_banner", "-nostdin", "-y", ...args, outputPath], { ...options, outputPath });
+
+    if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+      throw new AudioProcessingError("FAILED", "ffmpeg produced an empty output file", { tool: "ffmpeg" });
+    }
+
+    return outputPath;
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+}
+
+export interface AudioStreamInfo {
+  codec: string;
+  sampleRate?: number;
+  channels?: number;
+  // Bits per second
+  bitRate?: number;
+}
+
+export interface AudioProbe {
+  // Container format as reported by ffprobe, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  formatName: string;
+  duration: number;
+  // Overall bitrate in bits per second
+  bitRate?: number;
+  size?: number;
+  // First audio stream, if the file has one
+  audio?: AudioStreamInfo;
+  hasVideo: boolean;
+}
+
+/**
+ * Read container and stream information with ffprobe
+ * @param inputPath Path to the media file
+ * @returns Format, duration, the first audio stream and whether there is video
+ */
+export async function probe(inputPath: string): Promise<AudioProbe> {
+  // Probing only reads the headers, so it gets a much shorter time limit
+  const { stdout } = await runTool(
+    FFPROBE_PATH,
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", inputPath],
+    { timeoutMs: 30000 },
+  );
+
+  let info: any;
+  try {
+    info = JSON.parse(stdout);
+  } catch {
+    throw new AudioProcessingError("INVALID_INPUT", "ffprobe returned unreadable output", { tool: "ffprobe" });
+  }
+
+  const streams: any[] = info.streams || [];
+  const format = info.format || {};
+  const toNumber = (value: unknown) => {
+    const number = parseFloat(String(value));
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  const audioStream = streams.find((stream) => stream.codec_type === "audio");
+
+  return {
+    formatName: format.format_name || "unknown",
+    // Some containers only report the duration on the stream
+    duration: toNumber(format.duration) ?? toNumber(audioStream?.duration) ?? 0,
+    bitRate: toNumber(format.bit_rate),
+    size: toNumber(format.size),
+    audio: audioStream
+      ? {
+          codec: audioStream.codec_name || "unknown",
+          sampleRate: toNumber(audioStream.sample_rate),
+          channels: toNumber(audioStream.channels),
+          bitRate: toNumber(audioStream.bit_rate),
+        }
+      : undefined,
+    // Cover art shows up as a single-frame video stream and doesn't count
+    hasVideo: streams.some((stream) => stream.codec_type === "video" && stream.disposition?.attached_pic !== 1),
+  };
+}
+
+/**
+ * Read the duration of an audio file in seconds
+ * @param inputPath Path to the audio file
+ * @returns Duration in seconds
+ */
+export async function getDuration(inputPath: string): Promise<number> {
+  let { duration } = await probe(inputPath);
+  if (!(duration > 0)) {
+    duration = await measureDuration(inputPath);
+  }
+
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new AudioProcessingError("INVALID_INPUT", "Could not determine audio duration", { tool: "ffprobe" });
+  }
+
+  return duration;
+}
+
+/**
+ * Measure duration by decoding the whole audio track
+ * Needed for files whose container doesn't record a duration, such as
+ * WebM recordings made by MediaRecorder
+ * @param inputPath Path to the media file
+ * @returns Seconds of audio, or 0 if nothing could be decoded
+ */
+export async function measureDuration(inputPath: string): Promise<number> {
+  const { stderr } = await runTool(FFMPEG_PATH, ["-hide_banner", "-nostdin", "-i", inputPath, "-vn", "-f", "null", "-"]);
+
+  // ffmpeg reports progress as "time=00:01:23.45"; the last one is the end of the track
+  const matches = stderr.match(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g) || [];
+  const last = matches[matches.length - 1];
+  if (!last) return 0;
+
+  const [hours, minutes, seconds] = last.slice("time=".length).split(":").map(parseFloat);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Check that an upload is a playable recording before it is queued
+ * Rejects files ffprobe cannot read, files without an audio stream and
+ * files with no measurable duration
+ * @param inputPath Path to the uploaded file
+ * @returns Codec, sample rate, channels, bitrate and duration of the audio
+ */
+export async function inspectUpload(inputPath: string): Promise<MediaInfo> {
+  let info: AudioProbe;
+  try {
+    info = await probe(inputPath);
+  } catch (error) {
+    if (error instanceof AudioProcessingError && error.code === "INVALID_INPUT") {
+      throw new AudioProcessingError("INVALID_INPUT", "The file is not a readable audio or video file", {
+        tool: error.tool,
+        exitCode: error.exitCode,
+        stderr: error.stderr,
+      });
+    }
+    throw error;
+  }
+
+  if (!info.audio) {
+    throw new AudioProcessingError("INVALID_INPUT", "The file does not contain an audio track", { tool: "ffprobe" });
+  }
+  if (!(info.duration > 0)) {
+    info.duration = await measureDuration(inputPath);
+  }
+  if (!(info.duration > 0)) {
+    throw new AudioProcessingError("INVALID_INPUT", "The audio track is empty", { tool: "ffprobe" });
+  }
+
+  return {
+    formatName: info.formatName,
+    codec: info.audio.codec,
+    sampleRate: info.audio.sampleRate,
+    channels: info.audio.channels,
+    bitRate: info.audio.bitRate ?? info.bitRate,
+    duration: info.duration,
+    hasVideo: info.hasVideo,
+  };
+}
+
+export interface TranscodeOptions {
+  // ffmpeg encoder name, e.g. "libopus" or "pcm_s16le"
+  codec?: string;
+  // e.g. "12k"
+  bitrate?: string;
+  channels?: number;
+  sampleRate?: number;
+  // Opus application mode
+  application?: "voip" | "audio" | "lowdelay";
+  // Seconds into the input to start from
+  start?: number;
+  // Seconds of input to keep
+  duration?: number;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+/**
+ * Re-encode the audio track of a file, dropping video and metadata
+ * @param inputPath Path to the source file
+ * @param outputPath Where to write the result; the extension picks the container
+ * @param options Encoder settings and an optional time window
+ * @returns outputPath
+ */
+export async function transcode(inputPath: string, outputPath: string, options: TranscodeOptions = {}): Promise<string> {
+  const args: string[] = [];
+
+  // Seeking before -i is fast and accurate enough for audio
+  if (options.start !== undefined) args.push("-ss", String(options.start));
+  if (options.duration !== undefined) args.push("-t", String(options.duration));
+  args.push("-i", inputPath, "-vn", "-map_metadata", "-1");
+  if (options.channels !== undefined) args.push("-ac", String(options.channels));
+  if (options.sampleRate !== undefined) args.push("-ar", String(options.sampleRate));
+  if (options.codec) args.push("-c:a", options.codec);
+  if (options.bitrate) args.push("-b:a", options.bitrate);
+  if (options.application) args.push("-application", options.application);
+
+  return runFfmpeg(args, outputPath, options);
+}
+
+/**
+ * Compress an audio file with speech-optimised Opus settings
+ * @param inputPath Path to the original audio file
+ * @returns Path to the compressed .ogg file next to the original
+ */
+export async function compress(inputPath: string): Promise<string> {
+  const outputPath = path.join(path.dirname(inputPath), `compressed-${path.basename(inputPath)}.ogg`);
+  return transcode(inputPath, outputPath, SPEECH_ENCODING);
+}
+
+/**
+ * Pull the audio track out of a video, or out of a container Whisper can't read,
+ * re-encoded with the speech settings
+ * @param inputPath Path to the video or audio file
+ * @returns Path to the extracted .ogg file next to the original
+ */
+export async function extractAudio(inputPath: string): Promise<string> {
+  const outputPath = path.join(path.dirname(inputPath), `audio-${path.basename(inputPath)}.ogg`);
+  return transcode(inputPath, outputPath, SPEECH_ENCODING);
+}
+
+/**
+ * Cut a time window out of a file, re-encoded with the speech settings
+ * @param inputPath Path to the audio file
+ * @param start Seconds from the start of the file
+ * @param end Seconds from the start of the file where the window ends
+ * @param outputPath Where to write the window; defaults to a file next to the input
+ * @returns Path to the trimmed file
+ */
+export async function trim(inputPath: string, start: number, end: number, outputPath?: string): Promise<string> {
+  if (end <= start) {
+    throw new Error("Trim end must be after its start");
+  }
+
+  const target = outputPath || path.join(path.dirname(inputPath), `trim-${start}-${end}-${path.basename(inputPath)}.ogg`);
+  return transcode(inputPath, target, { ...SPEECH_ENCODING, start, duration: end - start });
+}
+
+export interface AudioChunk {
+  path: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split an audio file into overlapping time windows
+ * Each window is re-encoded with the same speech-optimised settings used for compression
+ * @param inputPath Path to the audio file
+ * @param chunkSeconds Length of each window in seconds
+ * @param overlapSeconds Seconds each window overlaps the previous one
+ * @returns The chunk files in playback order
+ */
+export async function split(inputPath: string, chunkSeconds: number, overlapSeconds: number): Promise<AudioChunk[]> {
+  if (overlapSeconds >= chunkSeconds) {
+    throw new Error("Chunk overlap must be shorter than the chunk length");
+  }
+
+  const totalDuration = await getDuration(inputPath);
+  const outputDir = path.dirname(inputPath);
+  const baseName = path.basename(inputPath);
+  const step = chunkSeconds - overlapSeconds;
+  const chunks: AudioChunk[] = [];
+
+  try {
+    for (let start = 0, index = 0; start < totalDuration; start += step, index++) {
+      const end = Math.min(start + chunkSeconds, totalDuration);
+      const outputPath = path.join(outputDir, `chunk-${index}-${baseName}.ogg`);
+
+      await trim(inputPath, start, end, outputPath);
+      chunks.push({ path: outputPath, start, end });
+
+      // The last window reached the end of the file
+      if (end >= totalDuration) {
+        break;
+      }
+    }
+  } catch (error) {
+    removeFiles(chunks.map((chunk) => chunk.path));
+    throw error;
+  }
+
+  return chunks;
+}
+
+/**
+ * Delete temporary files, ignoring ones that are already gone
+ * @param paths Files to remove
+ */
+export function removeFiles(paths: string[]): void {
+  for (const filePath of paths) {
+    fs.rm(filePath, { force: true }, (err) => {
+      if (err) console.error("Error removing temp file:", err);
+    });
+  }
+}
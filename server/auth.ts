@@ -0,0 +1,194 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import type { Pool as PgPool } from "pg";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { registerUserSchema, type User as SelectUser, type PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hash a password with a random salt using scrypt
+ * @param password The plain-text password
+ * @returns "hash.salt", both hex encoded
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * @param supplied The plain-text password to check
+ * @param stored The stored "hash.salt" string
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+/**
+ * Middleware that rejects requests without a logged-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "You must be logged in" });
+  }
+  next();
+}
+
+/**
+ * Resolves the logged-in user of a request that bypasses Express, such as a WebSocket upgrade
+ */
+export type UpgradeAuthenticator = (req: IncomingMessage) => Promise<Express.User | undefined>;
+
+/**
+ * Configure sessions, passport and the register/login/logout/user routes
+ * Sessions live in Postgres when a database is configured, otherwise in memory
+ * @returns A function that reads the session user from a raw HTTP request
+ */
+export function setupAuth(app: Express): UpgradeAuthenticator {
+  const sessionStore = pool
+    // Neon's Pool speaks the same protocol as the node-postgres Pool the store is typed for
+    ? new (connectPg(session))({ pool: pool as PgPool, createTableIfMissing: true })
+    : new (createMemoryStore(session))({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET || "audio-transcriber-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  const sessionMiddleware: RequestHandler[] = [session(sessionSettings), passport.initialize(), passport.session()];
+
+  app.set("trust proxy", 1);
+  app.use(...sessionMiddleware);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        return res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid request data", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        return res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Run the same session middleware by hand; nothing is written back since
+  // upgrade requests never get a normal response
+  return async (req) => {
+    const request = req as Request;
+    const response = {} as Response;
+    for (const middleware of sessionMiddleware) {
+      await new Promise<void>((resolve, reject) => {
+        middleware(request, response, (err?: any) => (err ? reject(err) : resolve()));
+      });
+    }
+    return request.isAuthenticated?.() ? request.user : undefined;
+  };
+}
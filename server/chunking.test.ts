@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendTimed, joinOverlappingText, mostCommon } from "./chunking";
+
+test("joinOverlappingText drops the words repeated by the window overlap", () => {
+  assert.equal(
+    joinOverlappingText("we will meet on the big day", "on the big day we eat"),
+    "we will meet on the big day we eat",
+  );
+});
+
+test("joinOverlappingText ignores case and punctuation when matching the overlap", () => {
+  assert.equal(
+    joinOverlappingText("Thanks for coming. Let's start now", "let's START, now. First item"),
+    "Thanks for coming. Let's start now First item",
+  );
+});
+
+test("joinOverlappingText keeps short repeats, which are likely chance", () => {
+  assert.equal(
+    joinOverlappingText("we will meet on the", "the budget is fine"),
+    "we will meet on the the budget is fine",
+  );
+});
+
+test("appendTimed shifts a chunk onto the recording's timeline and drops the overlap", () => {
+  const existing = [
+    { start: 0, end: 5, text: "one" },
+    { start: 5, end: 10, text: "two" },
+  ];
+  // The chunk starts at 8s, so its first segment repeats the end of "two"
+  const incoming = [
+    { start: 0, end: 2, text: "two" },
+    { start: 2, end: 6, text: "three" },
+  ];
+
+  assert.deepEqual(appendTimed(existing, incoming, 8), [
+    ...existing,
+    { start: 10, end: 14, text: "three" },
+  ]);
+});
+
+test("appendTimed keeps an item straddling the boundary exactly once", () => {
+  const existing = [{ start: 0, end: 10, text: "before" }];
+  const straddling = [{ start: 1, end: 5, text: "straddling" }];
+
+  // Midpoint 11s is past the end of what we have
+  assert.equal(appendTimed(existing, straddling, 8).length, 2);
+  // Midpoint 9s is not
+  assert.equal(appendTimed(existing, straddling, 6).length, 1);
+});
+
+test("mostCommon picks the language most chunks reported", () => {
+  assert.equal(mostCommon(["en", undefined, "de", "en"]), "en");
+  assert.equal(mostCommon([undefined]), undefined);
+});
@@ -0,0 +1,162 @@
+import { transcribeAudio } from "./transcription";
+import { continuePrompt } from "./glossary";
+import { split, removeFiles } from "./audio";
+import { defaultTranscriptionOptions, type TranscriptionOptions, type TranscriptSegment, type TranscriptWord } from "@shared/schema";
+
+// Length of each window sent to Whisper. At the 12 kbps Opus settings used for
+// compression ten minutes is roughly 1MB, well clear of the 25MB limit even for
+// uncompressed sources.
+const DEFAULT_CHUNK_SECONDS = 10 * 60;
+
+// Each window starts this many seconds before the previous one ends so words
+// cut at a boundary are heard in full by at least one request.
+const DEFAULT_OVERLAP_SECONDS = 5;
+
+// Upper bound on how many words we compare when trimming the overlap
+const MAX_OVERLAP_WORDS = 40;
+
+// Shorter runs, like a single "the", repeat by chance too often to be dropped
+const MIN_OVERLAP_WORDS = 3;
+
+export interface ChunkedTranscription {
+  text: string;
+  duration: number;
+  language?: string;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+  chunkCount: number;
+}
+
+// Lower-case and strip punctuation so "Hello," and "hello" compare equal
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[.,!?;:"()\[\]¿¡…-]/g, "");
+}
+
+/**
+ * Join two transcript pieces, dropping words repeated because of the window overlap
+ * Finds the longest run of words that ends the previous text and starts the next one,
+ * ignoring runs under MIN_OVERLAP_WORDS
+ * @param previous Text accumulated so far
+ * @param next Text of the following chunk
+ * @returns The combined text
+ */
+export function joinOverlappingText(previous: string, next: string): string {
+  const prevWords = previous.trim().split(/\s+/).filter(Boolean);
+  const nextWords = next.trim().split(/\s+/).filter(Boolean);
+
+  if (prevWords.length === 0) return nextWords.join(" ");
+  if (nextWords.length === 0) return prevWords.join(" ");
+
+  const limit = Math.min(MAX_OVERLAP_WORDS, prevWords.length, nextWords.length);
+  const prevTail = prevWords.slice(-limit).map(normalizeWord);
+  const nextHead = nextWords.slice(0, limit).map(normalizeWord);
+
+  let overlap = 0;
+  for (let size = limit; size >= MIN_OVERLAP_WORDS; size--) {
+    let matches = true;
+    for (let i = 0; i < size; i++) {
+      if (prevTail[limit - size + i] !== nextHead[i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) {
+      overlap = size;
+      break;
+    }
+  }
+
+  return [...prevWords, ...nextWords.slice(overlap)].join(" ");
+}
+
+/**
+ * Append timed items from a chunk, shifting them onto the recording's timeline
+ * Items that start before the end of what we already have are repeats from the overlap and are dropped
+ * @param existing Items collected so far, in recording time
+ * @param incoming Items from the chunk, in chunk time
+ * @param offset Start of the chunk in the recording, in seconds
+ */
+export function appendTimed<T extends { start: number; end: number }>(
+  existing: T[],
+  incoming: T[],
+  offset: number
+): T[] {
+  const covered = existing.length > 0 ? existing[existing.length - 1].end : 0;
+  const shifted = incoming
+    .map((item) => ({ ...item, start: item.start + offset, end: item.end + offset }))
+    // Compare midpoints so an item straddling the boundary is kept exactly once
+    .filter((item) => (item.start + item.end) / 2 >= covered);
+
+  return [...existing, ...shifted];
+}
+
+// The language reported by the most chunks
+export function mostCommon(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [value, count] of Array.from(counts)) {
+    if (!best || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+/**
+ * Transcribe a long audio file by splitting it into overlapping windows
+ * Chunks are transcribed one after another so we stay within API rate limits
+ * @param audioFilePath Path to the audio file
+ * @param onChunk Called after each chunk is transcribed with its 1-based index and the chunk total
+ * @param options Language, mode and prompt applied to every chunk; each chunk's
+ * prompt is extended with the end of the text transcribed before it
+ * @returns Stitched transcription with total duration, timings and the number of chunks processed
+ */
+export async function transcribeInChunks(
+  audioFilePath: string,
+  onChunk?: (chunk: number, totalChunks: number) => void,
+  options: TranscriptionOptions = defaultTranscriptionOptions
+): Promise<ChunkedTranscription> {
+  const chunks = await split(audioFilePath, DEFAULT_CHUNK_SECONDS, DEFAULT_OVERLAP_SECONDS);
+  console.log(`Split audio into ${chunks.length} chunks`);
+
+  try {
+    let text = "";
+    let duration = 0;
+    let segments: TranscriptSegment[] = [];
+    let words: TranscriptWord[] = [];
+    const languages: (string | undefined)[] = [];
+    // Whether every chunk came back with segments to rebuild the text from
+    let allTimed = true;
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const result = await transcribeAudio(chunk.path, {
+        ...options,
+        prompt: i === 0 ? options.prompt : continuePrompt(options.prompt, text),
+      });
+      console.log(`Transcribed chunk ${i + 1} of ${chunks.length}`);
+      onChunk?.(i + 1, chunks.length);
+
+      text = joinOverlappingText(text, result.text);
+      segments = appendTimed(segments, result.segments, chunk.start);
+      words = appendTimed(words, result.words, chunk.start);
+      allTimed = allTimed && result.segments.length > 0;
+      languages.push(result.language);
+      // Chunk durations overlap, so measure from the start of the recording
+      duration = chunk.start + (result.duration || chunk.end - chunk.start);
+    }
+
+    return {
+      // Built from the kept segments when possible, so text and segments drop the same overlap
+      text: allTimed ? segments.map((segment) => segment.text).join(" ") : text,
+      duration,
+      language: mostCommon(languages),
+      segments,
+      words,
+      chunkCount: chunks.length,
+    };
+  } finally {
+    removeFiles(chunks.map((chunk) => chunk.path));
+  }
+}
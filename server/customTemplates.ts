@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { CustomSummaryTemplate, SummaryField } from "@shared/schema";
+import { summaryContentSchemas, type SummaryTemplateId } from "@shared/summaryTemplates";
+import type { SummaryPrompt } from "./providers/summaryPrompts";
+
+// What a summary provider needs to know about a user's template
+export type CustomTemplateSpec = Pick<CustomSummaryTemplate, "id" | "name" | "instructions" | "fields">;
+
+// A built-in template's id, or one of the user's own templates
+export type SummaryTemplateSpec = SummaryTemplateId | CustomTemplateSpec;
+
+// Models leave out fields they have nothing for, so every value has a default
+function fieldSchema(field: SummaryField): z.ZodTypeAny {
+  switch (field.type) {
+    case "string":
+      return z.string().default("");
+    case "stringList":
+      return z.array(z.string()).default([]);
+    case "objectList":
+      return z
+        .array(z.object(Object.fromEntries((field.properties ?? []).map((property) => [property, z.string().default("")]))))
+        .default([]);
+  }
+}
+
+/**
+ * Build the schema a custom template's summary is checked against
+ * @param fields The template's fields
+ * @returns An object schema with one key per field
+ */
+export function customContentSchema(fields: SummaryField[]) {
+  return z.object(Object.fromEntries(fields.map((field) => [field.name, fieldSchema(field)])));
+}
+
+/**
+ * The schema a summary made with the template must match
+ */
+export function contentSchemaFor(template: SummaryTemplateSpec): z.ZodTypeAny {
+  return typeof template === "string" ? summaryContentSchemas[template] : customContentSchema(template.fields);
+}
+
+function describeType(field: SummaryField): string {
+  switch (field.type) {
+    case "string":
+      return "Text";
+    case "stringList":
+      return "Array of strings";
+    case "objectList":
+      return `Array of objects with ${(field.properties ?? []).map((property) => JSON.stringify(property)).join(", ")}`;
+  }
+}
+
+function exampleValue(field: SummaryField): unknown {
+  switch (field.type) {
+    case "string":
+      return "...";
+    case "stringList":
+      return ["...", "..."];
+    case "objectList":
+      return [Object.fromEntries((field.properties ?? []).map((property) => [property, "..."]))];
+  }
+}
+
+/**
+ * Write the prompt for a custom template from its instructions and fields
+ * The fields are listed with their types and descriptions, and an example
+ * JSON object shows the shape to return
+ */
+export function customSummaryPrompt(template: CustomTemplateSpec): SummaryPrompt {
+  const role = `You are an expert summarizer. Summarize transcripts using the "${template.name}" template written by the user.`;
+
+  return {
+    role: template.instructions ? `${role}\n\nThe template's instructions:\n${template.instructions}` : role,
+    instructions: template.fields
+      .map((field, i) => {
+        const description = field.description ? `: ${field.description}` : "";
+        return `${i + 1}. ${JSON.stringify(field.name)} (${describeType(field)})${description}`;
+      })
+      .join("\n"),
+    format: JSON.stringify(
+      Object.fromEntries(template.fields.map((field) => [field.name, exampleValue(field)])),
+      null,
+      2,
+    ),
+  };
+}
@@ -0,0 +1,74 @@
+import { getDiarizationProvider, type SpeakerTurn } from "./providers";
+import { UpstreamError } from "./resilience";
+import type { TranscriptSegment } from "@shared/schema";
+
+// Seconds of overlap between a segment and a turn
+function overlap(segment: TranscriptSegment, turn: SpeakerTurn): number {
+  return Math.max(0, Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start));
+}
+
+/**
+ * Label each segment with the speaker whose turns overlap it the most
+ * Provider labels are renamed "Speaker 1", "Speaker 2"... in order of first appearance
+ * @param segments Transcribed segments
+ * @param turns Who spoke when, as reported by the diarization provider
+ * @returns The segments with a speaker set where a turn overlaps them
+ */
+export function assignSpeakers(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  const names = new Map<string, string>();
+
+  return segments.map((segment) => {
+    const totals = new Map<string, number>();
+    for (const turn of turns) {
+      const seconds = overlap(segment, turn);
+      if (seconds > 0) {
+        totals.set(turn.speaker, (totals.get(turn.speaker) || 0) + seconds);
+      }
+    }
+
+    let best: string | undefined;
+    totals.forEach((seconds, speaker) => {
+      if (best === undefined || seconds > totals.get(best)!) best = speaker;
+    });
+    if (best === undefined) {
+      const { speaker, ...unlabelled } = segment;
+      return unlabelled;
+    }
+
+    if (!names.has(best)) {
+      names.set(best, `Speaker ${names.size + 1}`);
+    }
+    return { ...segment, speaker: names.get(best) };
+  });
+}
+
+/**
+ * Work out who spoke each segment using the configured diarization provider
+ * @param audioFilePath The audio the segments were transcribed from
+ * @param segments Transcribed segments
+ * @returns The segments labelled with speakers, or unchanged when diarization is turned off
+ */
+export async function diarizeSegments(audioFilePath: string, segments: TranscriptSegment[]): Promise<TranscriptSegment[]> {
+  const provider = getDiarizationProvider();
+  if (!provider || segments.length === 0) return segments;
+
+  try {
+    const turns = await provider.diarize(audioFilePath, segments);
+    return assignSpeakers(segments, turns);
+  } catch (error: any) {
+    console.error("Error diarizing audio:", error);
+
+    // Keep the error code so callers can tell rate limits from outages
+    if (error instanceof UpstreamError) {
+      throw error;
+    }
+    throw new Error(`Failed to identify speakers: ${error.message}`);
+  }
+}
+
+/**
+ * Whether speakers will be identified, so callers can skip reporting the stage
+ */
+export function isDiarizationEnabled(): boolean {
+  return getDiarizationProvider() !== null;
+}
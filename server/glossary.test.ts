@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyGlossary, continuePrompt, glossaryPrompt } from "./glossary";
+import type { GlossaryTerm } from "@shared/schema";
+
+function term(value: string, aliases: string[] = [], caseSensitive = false): GlossaryTerm {
+  return { id: 1, userId: 1, term: value, aliases, caseSensitive, createdAt: new Date() };
+}
+
+test("glossaryPrompt lists the terms after the context", () => {
+  assert.equal(
+    glossaryPrompt("A planning call.", [term("Kubernetes"), term("Zod")]),
+    "A planning call.\nGlossary: Kubernetes, Zod.",
+  );
+});
+
+test("glossaryPrompt keeps every term when the context is as long as allowed", () => {
+  const prompt = glossaryPrompt("x".repeat(500), [term("Kubernetes"), term("Zod")])!;
+
+  assert.ok(prompt.endsWith("Glossary: Kubernetes, Zod."));
+  assert.ok(prompt.length <= 500);
+});
+
+test("glossaryPrompt drops the context when the glossary fills the budget", () => {
+  // "Glossary: " and "." make it exactly 500 characters
+  const prompt = glossaryPrompt("x".repeat(500), [term("T".repeat(489))])!;
+
+  assert.equal(prompt, `Glossary: ${"T".repeat(489)}.`);
+});
+
+test("glossaryPrompt keeps the terms that fit when the glossary is too long", () => {
+  const terms = Array.from({ length: 100 }, (_, i) => term(`Term${i}`));
+  const prompt = glossaryPrompt(undefined, terms)!;
+
+  assert.ok(prompt.length <= 500);
+  assert.match(prompt, /^Glossary: Term0, Term1, .*\.$/);
+});
+
+test("glossaryPrompt is undefined with nothing to say", () => {
+  assert.equal(glossaryPrompt(undefined, []), undefined);
+});
+
+test("continuePrompt carries the end of the previous text without cutting a word", () => {
+  const previous = `${"word ".repeat(100)}final sentence.`;
+  const prompt = continuePrompt("Glossary: Zod.", previous)!;
+
+  assert.ok(prompt.startsWith("Glossary: Zod.\nword "));
+  assert.ok(prompt.endsWith("final sentence."));
+});
+
+test("applyGlossary fixes aliases and casing, keeping possessives", () => {
+  const terms = [term("Kubernetes", ["cooper netties"]), term("gRPC", ["grpc"], true)];
+
+  assert.equal(
+    applyGlossary("cooper netties's scheduler talks kubernetes over grpc", terms),
+    "Kubernetes's scheduler talks Kubernetes over gRPC",
+  );
+});
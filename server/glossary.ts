@@ -0,0 +1,95 @@
+import type { GlossaryTerm, TranscriptSegment, TranscriptWord } from "@shared/schema";
+
+// Whisper only reads the last 224 tokens of a prompt, roughly 4 characters each
+const MAX_PROMPT_CHARS = 800;
+
+// Text from the end of the previous chunk that is carried into the next
+// chunk's prompt so sentences and spellings continue across the boundary
+const CARRY_CHARS = 300;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the transcription prompt from the user's context and glossary
+ * Whisper treats the prompt as text that came before the audio, so listing
+ * the terms makes it more likely to spell them the same way
+ * @param context What the recording is about, as given on the upload form
+ * @param terms The user's glossary
+ * @returns The prompt, or undefined when there is nothing to say
+ */
+export function glossaryPrompt(context: string | undefined, terms: GlossaryTerm[]): string | undefined {
+  // Leave room for the text carried over between chunks
+  const budget = MAX_PROMPT_CHARS - CARRY_CHARS;
+
+  // Terms get their room first, so a long context can't push them out; a
+  // glossary too long by itself keeps the terms that fit
+  const listed: string[] = [];
+  for (const { term } of terms) {
+    if (`Glossary: ${[...listed, term].join(", ")}.`.length > budget) break;
+    listed.push(term);
+  }
+  const glossary = listed.length > 0 ? `Glossary: ${listed.join(", ")}.` : "";
+
+  // A glossary that fills the budget leaves no room, not a negative slice end
+  const room = Math.max(0, budget - glossary.length - (glossary ? 1 : 0));
+  const parts = [context?.slice(0, room).trim(), glossary].filter(Boolean);
+  return parts.length > 0 ? parts.join("\n") : undefined;
+}
+
+/**
+ * Extend a prompt with the end of what was transcribed so far
+ * @param prompt Prompt built by glossaryPrompt
+ * @param previousText Transcript of the audio before this chunk
+ */
+export function continuePrompt(prompt: string | undefined, previousText: string): string | undefined {
+  let tail = previousText.slice(-CARRY_CHARS);
+  // Don't start in the middle of a word
+  if (tail.length < previousText.length) {
+    tail = tail.replace(/^\S*\s+/, "");
+  }
+
+  const continued = [prompt, tail.trim()].filter(Boolean).join("\n");
+  return continued || undefined;
+}
+
+/**
+ * Replace aliases with the correct spelling of their terms
+ * Matches whole words, keeping any possessive after them. Case-insensitive
+ * terms also fix the casing of the term itself, so "kubernetes" becomes "Kubernetes".
+ * @param text Transcript text
+ * @param terms The user's glossary
+ */
+export function applyGlossary(text: string, terms: GlossaryTerm[]): string {
+  return terms.reduce((result, term) => {
+    const patterns = term.caseSensitive ? term.aliases : [...term.aliases, term.term];
+    if (patterns.length === 0) return result;
+
+    // Longest first so "cooper netties cluster" wins over "cooper netties"
+    const alternatives = patterns
+      .slice()
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|");
+    const matcher = new RegExp(`(?<![\\w'])(?:${alternatives})(?!\\w)`, term.caseSensitive ? "g" : "gi");
+    return result.replace(matcher, term.term);
+  }, text);
+}
+
+/**
+ * Apply the glossary to a transcription's text, segments and words
+ * Words are matched one at a time, so only single-word aliases change them
+ */
+export function applyGlossaryToTranscription<
+  T extends { text: string; segments?: TranscriptSegment[]; words?: TranscriptWord[] },
+>(transcription: T, terms: GlossaryTerm[]): T {
+  if (terms.length === 0) return transcription;
+
+  return {
+    ...transcription,
+    text: applyGlossary(transcription.text, terms),
+    segments: transcription.segments?.map((segment) => ({ ...segment, text: applyGlossary(segment.text, terms) })),
+    words: transcription.words?.map((word) => ({ ...word, word: applyGlossary(word.word, terms) })),
+  };
+}
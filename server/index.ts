@@ -3,6 +3,9 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Transcripts that were never saved are summarized from their text, which can
+// run to megabytes for long recordings; the default 100kb covers everything else
+app.use("/api/summarize", express.json({ limit: "10mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
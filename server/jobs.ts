@@ -0,0 +1,220 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { JobEvent, JobEventType, JobStatus, TranscriptionJob } from "@shared/schema";
+import { UpstreamError } from "./resilience";
+
+// Finished jobs are kept around this long so clients can collect the result
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// A running job that reports nothing for this long is flagged as stalled
+const STALL_TIMEOUT_MS = parseInt(process.env.JOB_STALL_TIMEOUT_MS || "90000", 10) || 90000;
+
+// Progress (0-100) reached when each stage event fires. Chunk events are
+// interpolated between transcription_started and transcription_finished.
+const stageProgress: Record<JobEventType, number> = {
+  upload_received: 5,
+  extraction_started: 6,
+  extraction_finished: 9,
+  compression_started: 10,
+  compression_finished: 30,
+  transcription_started: 35,
+  chunk_transcribed: 35,
+  transcription_finished: 85,
+  diarization_started: 86,
+  diarization_finished: 90,
+  summary_started: 92,
+  summary_generated: 98,
+  stalled: 0,
+  failed: 0,
+  done: 100,
+};
+
+type JobEventDetails = Partial<Pick<JobEvent, "originalSize" | "compressedSize" | "chunk" | "totalChunks" | "code">>;
+
+/**
+ * Handle given to a running job for reporting what it is doing
+ */
+export interface JobReporter {
+  setStatus(status: JobStatus): void;
+  report(type: JobEventType, message: string, details?: JobEventDetails): void;
+}
+
+/**
+ * Work performed for a job once it leaves the queue
+ * Reports its stages through the reporter and resolves with the fields to merge into the job
+ */
+export type JobTask = (
+  reporter: JobReporter
+) => Promise<Pick<TranscriptionJob, "result" | "summary">>;
+
+/**
+ * In-process job queue with bounded concurrency
+ * Jobs run in submission order; at most `concurrency` run at once so several
+ * uploads do not all hit FFmpeg and OpenAI simultaneously
+ */
+export class JobManager {
+  private jobs: Map<string, TranscriptionJob>;
+  private pending: { id: string; task: JobTask }[];
+  private stageStartedAt: Map<string, number>;
+  private stallTimers: Map<string, NodeJS.Timeout>;
+  private emitter: EventEmitter;
+  private running: number;
+  readonly concurrency: number;
+
+  constructor(concurrency: number) {
+    this.jobs = new Map();
+    this.pending = [];
+    this.stageStartedAt = new Map();
+    this.stallTimers = new Map();
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0);
+    this.running = 0;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  submit(userId: number, filename: string, size: number, task: JobTask): TranscriptionJob {
+    const id = randomUUID();
+    const job: TranscriptionJob = {
+      id,
+      userId,
+      status: "queued",
+      filename,
+      createdAt: new Date().toISOString(),
+      timings: {},
+      progress: 0,
+      events: [],
+    };
+
+    this.jobs.set(id, job);
+    this.stageStartedAt.set(id, Date.now());
+    this.report(id, "upload_received", `Received ${filename}`, { originalSize: size });
+    this.pending.push({ id, task });
+    this.pump();
+
+    return job;
+  }
+
+  /**
+   * Look up a job, hiding jobs that belong to other users
+   */
+  get(userId: number, id: string): TranscriptionJob | undefined {
+    const job = this.jobs.get(id);
+    return job?.userId === userId ? job : undefined;
+  }
+
+  /**
+   * Listen for events on a job
+   * @returns A function that removes the listener
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  private report(id: string, type: JobEventType, message: string, details: JobEventDetails = {}): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    let progress = stageProgress[type];
+    if (type === "chunk_transcribed" && details.chunk && details.totalChunks) {
+      const span = stageProgress.transcription_finished - stageProgress.transcription_started;
+      progress = stageProgress.transcription_started + (span * details.chunk) / details.totalChunks;
+    }
+    // Stalls and failures don't move the bar
+    if (type === "stalled" || type === "failed") {
+      progress = job.progress;
+    }
+
+    const event: JobEvent = {
+      type,
+      at: new Date().toISOString(),
+      message,
+      progress: Math.max(job.progress, progress),
+      ...details,
+    };
+
+    job.progress = event.progress;
+    job.events.push(event);
+    this.emitter.emit(id, event);
+
+    if (type !== "stalled") {
+      this.resetStallTimer(id);
+    }
+  }
+
+  private resetStallTimer(id: string): void {
+    clearTimeout(this.stallTimers.get(id));
+    this.stallTimers.delete(id);
+
+    const job = this.jobs.get(id);
+    // Only running jobs can stall; queued ones are just waiting their turn
+    if (!job || job.status === "queued" || job.status === "done" || job.status === "failed") return;
+
+    const timer = setTimeout(() => {
+      const seconds = Math.round(STALL_TIMEOUT_MS / 1000);
+      this.report(id, "stalled", `No progress for ${seconds} seconds while ${job.status}`);
+    }, STALL_TIMEOUT_MS);
+    timer.unref();
+    this.stallTimers.set(id, timer);
+  }
+
+  private setStatus(id: string, status: JobStatus): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status === status) return;
+
+    // Record how long the previous stage took
+    const now = Date.now();
+    const stageStart = this.stageStartedAt.get(id) ?? now;
+    job.timings[job.status] = (job.timings[job.status] ?? 0) + (now - stageStart);
+    this.stageStartedAt.set(id, now);
+
+    job.status = status;
+    this.resetStallTimer(id);
+
+    if (status === "done" || status === "failed") {
+      job.finishedAt = new Date(now).toISOString();
+      this.stageStartedAt.delete(id);
+      setTimeout(() => this.jobs.delete(id), JOB_RETENTION_MS).unref();
+    }
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+      this.run(next.id, next.task).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(id: string, task: JobTask): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    job.startedAt = new Date().toISOString();
+
+    const reporter: JobReporter = {
+      setStatus: (status) => this.setStatus(id, status),
+      report: (type, message, details) => this.report(id, type, message, details),
+    };
+
+    try {
+      const output = await task(reporter);
+      Object.assign(job, output);
+      this.setStatus(id, "done");
+      this.report(id, "done", "Job complete");
+    } catch (error: any) {
+      console.error(`Job ${id} failed:`, error);
+      job.error = error.message || "Job failed";
+      job.errorCode = error instanceof UpstreamError ? error.code : undefined;
+      this.setStatus(id, "failed");
+      this.report(id, "failed", job.error!, { code: job.errorCode });
+    }
+  }
+}
+
+export const jobs = new JobManager(parseInt(process.env.TRANSCRIPTION_CONCURRENCY || "2", 10) || 2);
@@ -0,0 +1,337 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Server } from "http";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { storage } from "./storage";
+import { transcribeAudio } from "./transcription";
+import { applyGlossaryToTranscription, continuePrompt, glossaryPrompt } from "./glossary";
+import { diarizeSegments } from "./diarization";
+import { appendTimed, mostCommon } from "./chunking";
+import { inspectUpload, measureDuration, removeFiles, trim } from "./audio";
+import { UpstreamError } from "./resilience";
+import type { UpgradeAuthenticator } from "./auth";
+import {
+  defaultTranscriptionOptions,
+  liveClientMessageSchema,
+  type LiveServerMessage,
+  type TranscriptionOptions,
+  type TranscriptSegment,
+  type TranscriptWord,
+  type GlossaryTerm,
+} from "@shared/schema";
+
+const LIVE_PATH = "/api/live";
+
+// How often new audio is transcribed
+const PASS_INTERVAL_MS = 4000;
+
+// Segments ending this close to the live edge may still change when more
+// audio arrives, so they are sent as partial text
+const SETTLE_SECONDS = 2;
+
+// A window that grows past this is finalized even if no segment has settled,
+// which keeps each request short
+const MAX_WINDOW_SECONDS = 30;
+
+// Live recordings are capped like uploads
+const MAX_RECORDING_BYTES = 100 * 1024 * 1024;
+
+const liveDir = path.join(process.cwd(), "tmp", "live");
+fs.mkdirSync(liveDir, { recursive: true });
+
+/**
+ * One live recording: collects the audio the browser streams in, transcribes
+ * the part after the last final segment on a timer and saves the result
+ * when the client stops
+ */
+class LiveSession {
+  private filePath: string;
+  private filename: string | null;
+  private options: TranscriptionOptions;
+  // Loaded on the first pass
+  private glossary: GlossaryTerm[] | null;
+  private bytesReceived: number;
+  // Appends are chained so chunks land in the order they arrived
+  private writes: Promise<void>;
+  private pass: Promise<void> | null;
+  private timer: NodeJS.Timeout | undefined;
+  private stopping: boolean;
+  // Set when the recording could not be written; nothing more is transcribed
+  private failed: boolean;
+  // Seconds of audio covered by final segments
+  private finalizedUntil: number;
+  private lastDuration: number;
+  private segments: TranscriptSegment[];
+  private words: TranscriptWord[];
+  private languages: (string | undefined)[];
+  private passCount: number;
+
+  constructor(
+    private socket: WebSocket,
+    private userId: number,
+  ) {
+    this.filePath = path.join(liveDir, `live-${randomUUID()}.webm`);
+    this.filename = null;
+    this.options = defaultTranscriptionOptions;
+    this.glossary = null;
+    this.bytesReceived = 0;
+    this.writes = Promise.resolve();
+    this.pass = null;
+    this.timer = undefined;
+    this.stopping = false;
+    this.failed = false;
+    this.finalizedUntil = 0;
+    this.lastDuration = 0;
+    this.segments = [];
+    this.words = [];
+    this.languages = [];
+    this.passCount = 0;
+
+    socket.on("message", (data, isBinary) => this.onMessage(data, isBinary));
+    socket.on("close", () => this.dispose());
+  }
+
+  private send(message: LiveServerMessage): void {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private fail(error: any, fatal: boolean): void {
+    console.error("Live transcription error:", error);
+    this.send({
+      type: "error",
+      message: error.message || "Live transcription failed",
+      code: error instanceof UpstreamError ? error.code : undefined,
+      fatal,
+    });
+  }
+
+  private onMessage(data: RawData, isBinary: boolean): void {
+    if (isBinary) {
+      this.appendAudio(data as Buffer);
+      return;
+    }
+
+    const parsed = liveClientMessageSchema.safeParse(safeJsonParse(data.toString()));
+    if (!parsed.success) {
+      this.send({ type: "error", message: "Invalid message", fatal: false });
+      return;
+    }
+
+    if (parsed.data.type === "start") {
+      if (this.filename) return;
+      const { filename, language, mode, prompt } = parsed.data;
+      this.filename = filename;
+      this.options = { language, mode, prompt };
+      this.timer = setInterval(() => this.runPass(), PASS_INTERVAL_MS);
+      this.send({ type: "ready" });
+    } else {
+      this.stop();
+    }
+  }
+
+  private appendAudio(chunk: Buffer): void {
+    if (!this.filename || this.stopping || this.failed) return;
+
+    this.bytesReceived += chunk.length;
+    if (this.bytesReceived > MAX_RECORDING_BYTES) {
+      this.send({ type: "error", message: "Recording exceeds the 100MB limit", fatal: true });
+      this.socket.close();
+      return;
+    }
+
+    this.writes = this.writes
+      .then(() => (this.failed ? undefined : fs.promises.appendFile(this.filePath, chunk)))
+      .catch((error) => this.failWrite(error));
+  }
+
+  // The recording has a gap once a chunk is lost (such as a full disk), so
+  // the session ends rather than transcribing around it
+  private failWrite(error: any): void {
+    if (this.failed) return;
+    this.failed = true;
+    clearInterval(this.timer);
+    console.error("Live recording write error:", error);
+    // The error's message names the file on disk
+    this.send({ type: "error", message: "The recording could not be saved on the server", fatal: true });
+    this.socket.close();
+  }
+
+  /**
+   * Transcribe the audio after the last final segment on a timer tick
+   */
+  private runPass(): Promise<void> {
+    // Timer ticks are skipped while a pass is still running
+    if (this.pass) return this.pass;
+
+    // A failed pass is retried by the next one, which covers the same audio
+    this.pass = this.transcribeWindow(false)
+      .catch((error) => this.fail(error, false))
+      .finally(() => {
+        this.pass = null;
+      });
+    return this.pass;
+  }
+
+  /**
+   * Transcribe the audio after the last final segment
+   * @param final Treat everything as settled because no more audio is coming
+   */
+  private async transcribeWindow(final: boolean): Promise<void> {
+    await this.writes;
+    if (this.failed || this.bytesReceived === 0) return;
+
+    // MediaRecorder output has no duration header, so decode to measure it
+    const duration = await measureDuration(this.filePath);
+    if (duration - this.finalizedUntil < 1 || (!final && duration === this.lastDuration)) {
+      return;
+    }
+    this.lastDuration = duration;
+
+    this.glossary ??= await storage.listGlossaryTerms(this.userId);
+    // Each window continues the final text so far, like chunks of an upload
+    const prompt = continuePrompt(
+      glossaryPrompt(this.options.prompt, this.glossary),
+      this.segments.map((segment) => segment.text).join(" "),
+    );
+
+    const start = this.finalizedUntil;
+    const windowPath = await trim(this.filePath, start, duration, `${this.filePath}-window.ogg`);
+    let result;
+    try {
+      result = applyGlossaryToTranscription(
+        await transcribeAudio(windowPath, { ...this.options, prompt }),
+        this.glossary,
+      );
+    } finally {
+      removeFiles([windowPath]);
+    }
+    this.passCount++;
+    this.languages.push(result.language);
+
+    // Segments and words in recording time
+    const segments = result.segments.map((segment) => ({ ...segment, start: segment.start + start, end: segment.end + start }));
+    const words = result.words.map((word) => ({ ...word, start: word.start + start, end: word.end + start }));
+
+    let settled = final ? segments.length : segments.filter((segment) => segment.end <= duration - SETTLE_SECONDS).length;
+    if (settled === 0 && duration - start > MAX_WINDOW_SECONDS) {
+      settled = Math.max(1, segments.length - 1);
+    }
+
+    const finalized = segments.slice(0, settled);
+    if (finalized.length > 0) {
+      const until = final ? duration : finalized[finalized.length - 1].end;
+      this.segments = appendTimed(this.segments, finalized, 0);
+      this.words = appendTimed(this.words, words.filter((word) => word.end <= until), 0);
+      this.finalizedUntil = until;
+      this.send({ type: "final", segments: finalized });
+    }
+
+    // Silence gives no segments to finalize, so move past it rather than
+    // sending an ever longer window on every pass
+    if (segments.length === 0 && duration - start > MAX_WINDOW_SECONDS) {
+      this.finalizedUntil = final ? duration : duration - SETTLE_SECONDS;
+    }
+
+    this.send({
+      type: "partial",
+      text: segments.slice(settled).map((segment) => segment.text).join(" "),
+    });
+  }
+
+  private async stop(): Promise<void> {
+    if (this.stopping || !this.filename) return;
+    this.stopping = true;
+    clearInterval(this.timer);
+
+    try {
+      // The tail is transcribed here rather than as a timer pass: no pass
+      // follows to retry it, so a failure must stop the save
+      await this.pass;
+      this.pass = this.transcribeWindow(true);
+      await this.pass;
+      // The write error was already sent
+      if (this.failed) return;
+      if (this.segments.length === 0) {
+        this.send({ type: "error", message: "No speech was transcribed", fatal: true });
+        return;
+      }
+
+      // Speakers are identified once over the whole recording, so labels stay
+      // consistent; the live view shows unlabelled segments until then
+      try {
+        this.segments = await diarizeSegments(this.filePath, this.segments);
+      } catch {
+        // Already logged; the transcript is saved without speakers
+      }
+
+      const media = await inspectUpload(this.filePath);
+      const transcript = await storage.createTranscript({
+        userId: this.userId,
+        title: this.filename,
+        filename: this.filename,
+        text: this.segments.map((segment) => segment.text).join(" "),
+        duration: media.duration,
+        language: mostCommon(this.languages) ?? null,
+        mode: this.options.mode,
+        segments: this.segments,
+        words: this.words,
+        wasCompressed: false,
+        chunkCount: this.passCount,
+        media,
+      });
+      this.send({ type: "saved", transcriptId: transcript.id });
+    } catch (error) {
+      this.fail(error, true);
+    } finally {
+      this.socket.close();
+    }
+  }
+
+  private dispose(): void {
+    clearInterval(this.timer);
+    // Wait for pending writes and any running pass before deleting the file
+    Promise.allSettled([this.writes, this.pass]).then(() => removeFiles([this.filePath]));
+  }
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Accept live transcription WebSockets at /api/live on the given server
+ * Other upgrade requests (such as Vite's HMR socket) are left alone
+ * @param httpServer The server created in registerRoutes
+ * @param authenticate Resolves the session user of the upgrade request
+ */
+export function setupLiveTranscription(httpServer: Server, authenticate: UpgradeAuthenticator): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== LIVE_PATH) return;
+
+    try {
+      const user = await authenticate(req);
+      if (!user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        new LiveSession(ws, user.id);
+      });
+    } catch (error) {
+      console.error("Live transcription upgrade error:", error);
+      socket.destroy();
+    }
+  });
+}
@@ -0,0 +1,166 @@
+import fs from "fs";
+import path from "path";
+import { transcribeAudio } from "./transcription";
+import { transcribeInChunks } from "./chunking";
+import { compress, extractAudio, removeFiles } from "./audio";
+import { applyGlossaryToTranscription, glossaryPrompt } from "./glossary";
+import { diarizeSegments, isDiarizationEnabled } from "./diarization";
+import type { JobReporter } from "./jobs";
+import {
+  defaultTranscriptionOptions,
+  transcriptionSchema,
+  type MediaInfo,
+  type Transcription,
+  type TranscriptionOptions,
+  type GlossaryTerm,
+  type TranscriptSegment,
+} from "@shared/schema";
+
+// 25MB OpenAI limit
+const maxWhisperFileSize = 25 * 1024 * 1024;
+
+// Containers the Whisper API reads directly; anything else has its audio extracted first
+const whisperExtensions = [".flac", ".m4a", ".mp3", ".mp4", ".mpeg", ".mpga", ".oga", ".ogg", ".wav", ".webm"];
+
+// Used when the caller doesn't care about progress
+const silentReporter: JobReporter = {
+  setStatus: () => {},
+  report: () => {},
+};
+
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(2)}MB`;
+}
+
+/**
+ * Label segments with speakers when diarization is configured
+ * Speaker labels are a nice-to-have, so a failure keeps the transcript without them
+ */
+async function labelSpeakers(
+  audioPath: string,
+  segments: TranscriptSegment[],
+  reporter: JobReporter
+): Promise<TranscriptSegment[]> {
+  if (!isDiarizationEnabled() || segments.length === 0) return segments;
+
+  reporter.setStatus("diarizing");
+  reporter.report("diarization_started", "Identifying speakers");
+  try {
+    const labelled = await diarizeSegments(audioPath, segments);
+    const speakers = new Set(labelled.map((segment) => segment.speaker).filter(Boolean)).size;
+    reporter.report("diarization_finished", `Found ${speakers} speaker${speakers === 1 ? "" : "s"}`);
+    return labelled;
+  } catch (error: any) {
+    reporter.report("diarization_finished", `Speakers could not be identified: ${error.message}`);
+    return segments;
+  }
+}
+
+/**
+ * Run an uploaded file through audio extraction, compression, transcription and diarization
+ * Temp files are removed whether the pipeline succeeds or fails
+ * @param filePath Path to the uploaded file
+ * @param originalName Filename as provided by the client
+ * @param media What ffprobe found in the upload
+ * @param options Spoken language, if known, whether to translate to English and context for the prompt
+ * @param glossary The user's glossary, given to the transcriber and applied to the result
+ * @param reporter Receives status changes and stage events as the pipeline runs
+ * @returns The validated transcription
+ */
+export async function transcribeUpload(
+  filePath: string,
+  originalName: string,
+  media: MediaInfo,
+  options: TranscriptionOptions = defaultTranscriptionOptions,
+  glossary: GlossaryTerm[] = [],
+  reporter: JobReporter = silentReporter
+): Promise<Transcription> {
+  let audioPath = filePath;
+  const transcribeOptions = { ...options, prompt: glossaryPrompt(options.prompt, glossary) };
+  let wasCompressed = false;
+  // Everything created along the way, removed once the pipeline ends
+  const tempFiles = [filePath];
+
+  try {
+    // Videos and containers Whisper can't read are reduced to their audio track
+    if (media.hasVideo || !whisperExtensions.includes(path.extname(filePath).toLowerCase())) {
+      reporter.setStatus("extracting");
+      reporter.report("extraction_started", media.hasVideo ? "Extracting the audio track from the video" : "Converting audio");
+      audioPath = await extractAudio(filePath);
+      tempFiles.push(audioPath);
+      reporter.report("extraction_finished", `Extracted ${formatMB(fs.statSync(audioPath).size)} of audio`);
+    }
+
+    // Get file size in bytes
+    const fileSize = fs.statSync(audioPath).size;
+
+    // If file is larger than Whisper's limit, compress it
+    if (fileSize > maxWhisperFileSize) {
+      reporter.setStatus("compressing");
+      reporter.report("compression_started", `Compressing ${formatMB(fileSize)} of audio`, { originalSize: fileSize });
+      console.log(`Audio file is ${formatMB(fileSize)}, compressing...`);
+      // Too big for Whisper as it is, so a failed compression fails the job
+      audioPath = await compress(audioPath);
+      tempFiles.push(audioPath);
+      wasCompressed = true;
+
+      // Check size after compression
+      const newSize = fs.statSync(audioPath).size;
+      console.log(`Compression complete. New size: ${formatMB(newSize)}`);
+      reporter.report("compression_finished", `Compressed to ${formatMB(newSize)}`, {
+        originalSize: fileSize,
+        compressedSize: newSize,
+      });
+
+      // If still too large, split into overlapping chunks and transcribe each one
+      if (newSize > maxWhisperFileSize) {
+        console.log(`File still too large after compression (${formatMB(newSize)}), transcribing in chunks...`);
+        reporter.setStatus("transcribing");
+        reporter.report("transcription_started", "Splitting audio into chunks for transcription");
+        const chunked = await transcribeInChunks(audioPath, (chunk, totalChunks) => {
+          reporter.report("chunk_transcribed", `Transcribed chunk ${chunk} of ${totalChunks}`, { chunk, totalChunks });
+        }, transcribeOptions);
+        reporter.report("transcription_finished", `Transcribed ${chunked.chunkCount} chunks`);
+        const segments = await labelSpeakers(audioPath, chunked.segments, reporter);
+
+        return transcriptionSchema.parse(applyGlossaryToTranscription({
+          text: chunked.text,
+          duration: chunked.duration,
+          language: chunked.language,
+          mode: options.mode,
+          segments,
+          words: chunked.words,
+          filename: originalName,
+          wasCompressed: wasCompressed,
+          chunkCount: chunked.chunkCount
+        }, glossary));
+      }
+    }
+
+    // Transcribe the audio file
+    reporter.setStatus("transcribing");
+    reporter.report(
+      "transcription_started",
+      options.mode === "translate" ? "Sending audio for translation to English" : "Sending audio for transcription"
+    );
+    const transcription = await transcribeAudio(audioPath, transcribeOptions);
+    reporter.report("transcription_finished", "Transcription received");
+    const segments = await labelSpeakers(audioPath, transcription.segments, reporter);
+
+    // Validate the response
+    return transcriptionSchema.parse(applyGlossaryToTranscription({
+      text: transcription.text,
+      duration: transcription.duration,
+      language: transcription.language,
+      mode: options.mode,
+      segments,
+      words: transcription.words,
+      filename: originalName,
+      wasCompressed: wasCompressed,
+      chunkCount: 1
+    }, glossary));
+  } finally {
+    // Clean up temp files in either case (success or error)
+    removeFiles(tempFiles);
+  }
+}
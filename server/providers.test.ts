@@ -0,0 +1,71 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getSummaryProvider, getTranscriptionProvider, setProviders } from "./providers";
+import { LocalDiarizationProvider, LocalTranscriptionProvider } from "./providers/local";
+import { LocalSummaryProvider } from "./providers/localSummary";
+import { defaultTranscriptionOptions } from "@shared/schema";
+
+after(() => setProviders({ transcription: null, summary: null, diarization: null }));
+
+// Stands in for an upload; the local provider only looks at its bytes and size
+function writeFakeAudio(bytes: number): string {
+  const filePath = path.join(os.tmpdir(), `local-provider-${process.pid}-${bytes}.mp3`);
+  fs.writeFileSync(filePath, Buffer.alloc(bytes, 7));
+  return filePath;
+}
+
+test("setProviders replaces the providers selected from the environment", () => {
+  const transcription = new LocalTranscriptionProvider();
+  const summary = new LocalSummaryProvider();
+  setProviders({ transcription, summary });
+
+  assert.equal(getTranscriptionProvider(), transcription);
+  assert.equal(getSummaryProvider(), summary);
+});
+
+test("local transcription gives the same timed transcript for the same file", async () => {
+  const filePath = writeFakeAudio(60000);
+  try {
+    const provider = new LocalTranscriptionProvider();
+    const first = await provider.transcribe(filePath, defaultTranscriptionOptions);
+    const second = await provider.transcribe(filePath, defaultTranscriptionOptions);
+
+    assert.deepEqual(first, second);
+    assert.ok(first.segments.length > 0);
+    assert.equal(first.text, first.segments.map((segment) => segment.text).join(" "));
+    assert.ok(first.words.every((word, i) => i === 0 || word.start >= first.words[i - 1].start));
+  } finally {
+    fs.unlinkSync(filePath);
+  }
+});
+
+test("local translation has no word timings", async () => {
+  const filePath = writeFakeAudio(20000);
+  try {
+    const result = await new LocalTranscriptionProvider().transcribe(filePath, {
+      ...defaultTranscriptionOptions,
+      mode: "translate",
+    });
+
+    assert.deepEqual(result.words, []);
+    assert.ok(result.segments.length > 0);
+  } finally {
+    fs.unlinkSync(filePath);
+  }
+});
+
+test("local diarization hands over after a question", async () => {
+  const turns = await new LocalDiarizationProvider().diarize("", [
+    { start: 0, end: 3, text: "How did the launch go?" },
+    { start: 3, end: 6, text: "Better than expected." },
+    { start: 6, end: 9, text: "Sales doubled in a week." },
+  ]);
+
+  assert.deepEqual(turns, [
+    { start: 0, end: 3, speaker: "SPEAKER_0" },
+    { start: 3, end: 9, speaker: "SPEAKER_1" },
+  ]);
+});
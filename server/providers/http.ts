@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { TranscriptSegment } from "@shared/schema";
+import { CircuitBreaker, resilientCall } from "../resilience";
+import type { DiarizationProvider, SpeakerTurn } from "./types";
+
+const DIARIZATION_URL = process.env.DIARIZATION_URL || "";
+const DIARIZATION_API_KEY = process.env.DIARIZATION_API_KEY || "";
+// Diarization models are slower than transcription on long recordings
+const DIARIZATION_TIMEOUT_MS = parseInt(process.env.DIARIZATION_TIMEOUT_MS || "600000", 10) || 600000;
+
+const breakerThreshold = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || "5", 10) || 5;
+const breakerCooldownMs = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || "30000", 10) || 30000;
+
+const diarizationBreaker = new CircuitBreaker("Diarization service", breakerThreshold, breakerCooldownMs);
+
+const responseSchema = z.object({
+  turns: z.array(
+    z.object({
+      start: z.number(),
+      end: z.number(),
+      speaker: z.string(),
+    }),
+  ),
+});
+
+/**
+ * Diarization by a separate service, such as a pyannote server
+ * The audio is POSTed as multipart field "file" to DIARIZATION_URL, which
+ * answers with { "turns": [{ "start", "end", "speaker" }] } in seconds
+ */
+export class HttpDiarizationProvider implements DiarizationProvider {
+  readonly name = "http";
+
+  async diarize(audioFilePath: string, _segments: TranscriptSegment[]): Promise<SpeakerTurn[]> {
+    if (!DIARIZATION_URL) {
+      throw new Error("DIARIZATION_URL is not set");
+    }
+
+    const audio = await fs.promises.readFile(audioFilePath);
+    const body = await resilientCall(
+      "Diarization service",
+      async (signal) => {
+        const form = new FormData();
+        form.append("file", new Blob([audio]), path.basename(audioFilePath));
+
+        const response = await fetch(DIARIZATION_URL, {
+          method: "POST",
+          headers: DIARIZATION_API_KEY ? { Authorization: `Bearer ${DIARIZATION_API_KEY}` } : {},
+          body: form,
+          signal,
+        });
+        if (!response.ok) {
+          // Shaped like an SDK error so classifyError can read the status and Retry-After
+          throw Object.assign(new Error(`HTTP ${response.status} ${await response.text()}`), {
+            status: response.status,
+            headers: response.headers,
+          });
+        }
+        return response.json();
+      },
+      { timeoutMs: DIARIZATION_TIMEOUT_MS, breaker: diarizationBreaker },
+    );
+
+    return responseSchema.parse(body).turns;
+  }
+}
@@ -0,0 +1,130 @@
+import { LocalDiarizationProvider, LocalTranscriptionProvider } from "./local";
+import { LocalSummaryProvider } from "./localSummary";
+import { LocalAnswerProvider } from "./localAnswer";
+import { OpenAIAnswerProvider, OpenAISummaryProvider, OpenAITranscriptionProvider } from "./openai";
+import { HttpDiarizationProvider } from "./http";
+import type { AnswerProvider, DiarizationProvider, SummaryProvider, TranscriptionProvider } from "./types";
+
+export type {
+  Answer,
+  AnswerProvider,
+  AnswerTurn,
+  DiarizationProvider,
+  Passage,
+  SpeakerTurn,
+  SummaryCallOptions,
+  SummaryOutput,
+  SummaryProvider,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "./types";
+
+export const providerNames = ["openai", "local"] as const;
+
+export type ProviderName = (typeof providerNames)[number];
+
+/**
+ * Read a provider name from the environment
+ * Falls back to AI_PROVIDER, then to "openai"
+ */
+function configuredProvider(variable: string): ProviderName {
+  const value = (process.env[variable] || process.env.AI_PROVIDER || "openai").toLowerCase();
+  if (!(providerNames as readonly string[]).includes(value)) {
+    throw new Error(`Unknown provider "${value}" in ${variable}; expected one of ${providerNames.join(", ")}`);
+  }
+  return value as ProviderName;
+}
+
+// OpenAI has no diarization, so it is off unless a provider is named
+export const diarizationProviderNames = ["none", "local", "http"] as const;
+
+export type DiarizationProviderName = (typeof diarizationProviderNames)[number];
+
+/**
+ * Read the diarization provider from DIARIZATION_PROVIDER
+ * Defaults to the local heuristic when AI_PROVIDER is "local", and to none otherwise
+ */
+function configuredDiarizationProvider(): DiarizationProviderName {
+  const fallback = (process.env.AI_PROVIDER || "").toLowerCase() === "local" ? "local" : "none";
+  const value = (process.env.DIARIZATION_PROVIDER || fallback).toLowerCase();
+  if (!(diarizationProviderNames as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown provider "${value}" in DIARIZATION_PROVIDER; expected one of ${diarizationProviderNames.join(", ")}`,
+    );
+  }
+  return value as DiarizationProviderName;
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+let summaryProvider: SummaryProvider | null = null;
+let answerProvider: AnswerProvider | null = null;
+// undefined until first use; null means diarization is turned off
+let diarizationProvider: DiarizationProvider | null | undefined = undefined;
+
+/**
+ * The transcription backend selected by TRANSCRIPTION_PROVIDER or AI_PROVIDER
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!transcriptionProvider) {
+    transcriptionProvider = configuredProvider("TRANSCRIPTION_PROVIDER") === "local"
+      ? new LocalTranscriptionProvider()
+      : new OpenAITranscriptionProvider();
+  }
+  return transcriptionProvider;
+}
+
+/**
+ * The summary backend selected by SUMMARY_PROVIDER or AI_PROVIDER
+ */
+export function getSummaryProvider(): SummaryProvider {
+  if (!summaryProvider) {
+    summaryProvider = configuredProvider("SUMMARY_PROVIDER") === "local"
+      ? new LocalSummaryProvider()
+      : new OpenAISummaryProvider();
+  }
+  return summaryProvider;
+}
+
+/**
+ * The backend that answers questions about transcripts, selected by
+ * ANSWER_PROVIDER or AI_PROVIDER
+ */
+export function getAnswerProvider(): AnswerProvider {
+  if (!answerProvider) {
+    answerProvider = configuredProvider("ANSWER_PROVIDER") === "local"
+      ? new LocalAnswerProvider()
+      : new OpenAIAnswerProvider();
+  }
+  return answerProvider;
+}
+
+/**
+ * The diarization backend selected by DIARIZATION_PROVIDER, or null when it is "none"
+ */
+export function getDiarizationProvider(): DiarizationProvider | null {
+  if (diarizationProvider === undefined) {
+    const name = configuredDiarizationProvider();
+    diarizationProvider = name === "local"
+      ? new LocalDiarizationProvider()
+      : name === "http"
+        ? new HttpDiarizationProvider()
+        : null;
+  }
+  return diarizationProvider;
+}
+
+/**
+ * Replace the selected providers, e.g. with fakes in tests
+ * Passing null restores selection from the environment on next use
+ */
+export function setProviders(providers: {
+  transcription?: TranscriptionProvider | null;
+  summary?: SummaryProvider | null;
+  diarization?: DiarizationProvider | null;
+  answer?: AnswerProvider | null;
+}) {
+  if (providers.transcription !== undefined) transcriptionProvider = providers.transcription;
+  if (providers.summary !== undefined) summaryProvider = providers.summary;
+  if (providers.diarization !== undefined) diarizationProvider = providers.diarization ?? undefined;
+  if (providers.answer !== undefined) answerProvider = providers.answer;
+}
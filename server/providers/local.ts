@@ -0,0 +1,154 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import type { TranscriptionOptions, TranscriptSegment, TranscriptWord } from "@shared/schema";
+import { getDuration } from "../audio";
+import type { DiarizationProvider, SpeakerTurn, TranscriptionProvider, TranscriptionResult } from "./types";
+
+// Seconds of audio covered by each generated segment
+const SEGMENT_SECONDS = 5;
+
+// Bytes per second assumed when ffprobe cannot read the file (roughly 32 kbps)
+const FALLBACK_BYTES_PER_SECOND = 4000;
+
+// Sentences the local transcriber picks from. Some mention follow-ups so the
+// local summarizer has action items to find.
+const sentenceBank = [
+  "Welcome everyone and thanks for joining today.",
+  "Let's start with a quick review of last week's progress.",
+  "The new release went out on schedule without major issues.",
+  "Customer feedback on the onboarding flow has been positive.",
+  "We still need to improve the performance of the search page.",
+  "The budget for next quarter is mostly unchanged.",
+  "Our team should finalize the hiring plan by Friday.",
+  "Testing coverage has improved across the backend services.",
+  "Marketing will prepare a short announcement for the launch.",
+  "There are a few open questions about the data migration.",
+  "We need to schedule a follow-up meeting with the design team.",
+  "The support queue is shorter than it was last month.",
+  "Security review of the payment service is almost complete.",
+  "Everyone agreed the roadmap priorities look reasonable.",
+  "Let's wrap up and share the notes after the call.",
+];
+
+// Silence between segments long enough to hand over to another speaker (seconds)
+const TURN_PAUSE_SECONDS = 1;
+
+// Longest the local diarizer lets one speaker talk before switching (seconds)
+const MAX_TURN_SECONDS = 30;
+
+// Speakers the local diarizer takes turns between
+const LOCAL_SPEAKERS = 2;
+
+/**
+ * Small deterministic pseudo-random generator (mulberry32)
+ * The same seed always produces the same sequence
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Seed derived from the file contents so the same upload gives the same transcript
+async function seedForFile(filePath: string): Promise<number> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest().readUInt32BE(0);
+}
+
+// Duration from ffprobe, or an estimate from the file size when ffprobe is unavailable
+async function durationForFile(filePath: string): Promise<number> {
+  try {
+    return await getDuration(filePath);
+  } catch {
+    const { size } = await fs.promises.stat(filePath);
+    return Math.max(1, size / FALLBACK_BYTES_PER_SECOND);
+  }
+}
+
+/**
+ * Offline stand-in for Whisper
+ * Produces a plausible English transcript with segment and word timings that
+ * depends only on the file's contents and duration
+ */
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "local";
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const [seed, duration] = await Promise.all([
+      seedForFile(audioFilePath),
+      durationForFile(audioFilePath),
+    ]);
+    const random = seededRandom(seed);
+
+    const segments: TranscriptSegment[] = [];
+    const words: TranscriptWord[] = [];
+
+    for (let start = 0; start < duration; start += SEGMENT_SECONDS) {
+      const end = Math.min(start + SEGMENT_SECONDS, duration);
+      const text = sentenceBank[Math.floor(random() * sentenceBank.length)];
+      segments.push({ start, end, text, avgLogProb: -0.2, noSpeechProb: 0.01 });
+
+      // Spread the segment's time evenly across its words
+      const tokens = text.split(/\s+/);
+      const step = (end - start) / tokens.length;
+      tokens.forEach((token, i) => {
+        words.push({
+          word: token.replace(/[.,!?]/g, ""),
+          start: start + i * step,
+          end: start + (i + 1) * step,
+        });
+      });
+    }
+
+    // The sentence bank is English, so a translation reads the same. Like
+    // Whisper's translations it has no word timings or source language
+    const translate = options.mode === "translate";
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      duration,
+      language: translate ? options.language : options.language ?? "en",
+      segments,
+      words: translate ? [] : words,
+    };
+  }
+}
+
+/**
+ * Offline stand-in for a diarization model
+ * Doesn't listen to the audio: it starts a new turn after a pause, after a
+ * question or once a turn runs long, and alternates between two speakers.
+ * Good enough for conversations between two people and for tests.
+ */
+export class LocalDiarizationProvider implements DiarizationProvider {
+  readonly name = "local";
+
+  async diarize(_audioFilePath: string, segments: TranscriptSegment[]): Promise<SpeakerTurn[]> {
+    const turns: SpeakerTurn[] = [];
+
+    segments.forEach((segment, i) => {
+      const current = turns[turns.length - 1];
+      const previous = segments[i - 1];
+      const handOver =
+        !current ||
+        segment.start - previous.end >= TURN_PAUSE_SECONDS ||
+        previous.text.trim().endsWith("?") ||
+        segment.end - current.start > MAX_TURN_SECONDS;
+
+      if (handOver) {
+        turns.push({ start: segment.start, end: segment.end, speaker: `SPEAKER_${turns.length % LOCAL_SPEAKERS}` });
+      } else {
+        current.end = segment.end;
+      }
+    });
+
+    return turns;
+  }
+}
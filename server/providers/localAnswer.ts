@@ -0,0 +1,27 @@
+import type { Answer, AnswerProvider, AnswerTurn, Passage } from "./types";
+
+// Passages quoted in one answer
+const MAX_QUOTED = 2;
+
+/**
+ * Answers without a model by quoting the passages that best match the question
+ * Passages only added for context, with no matching words, are never quoted,
+ * so an unrelated question gets a plain "not covered" answer
+ */
+export class LocalAnswerProvider implements AnswerProvider {
+  readonly name = "local";
+
+  async answer(_question: string, passages: Passage[], _history: AnswerTurn[]): Promise<Answer> {
+    // Passages come most relevant first; weaker ones are only quoted when close to the best
+    const best = passages[0]?.score ?? 0;
+    const quoted = passages.filter((passage) => passage.score > 0 && passage.score >= best / 2).slice(0, MAX_QUOTED);
+    if (quoted.length === 0) {
+      return { answer: "The transcript doesn't seem to cover that.", sources: [] };
+    }
+
+    return {
+      answer: `Here is what the transcript says about that:\n\n${quoted.map((passage) => passage.text).join("\n\n")}`,
+      sources: quoted.map((passage) => passage.id),
+    };
+  }
+}
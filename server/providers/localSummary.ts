@@ -0,0 +1,370 @@
+import type { Summary, SummaryField } from "@shared/schema";
+import type { CustomSummaryValues, SummaryContent } from "@shared/summaryTemplates";
+import { contentSchemaFor, type SummaryTemplateSpec } from "../customTemplates";
+import { CancelledError } from "../resilience";
+import type { SummaryCallOptions, SummaryOutput, SummaryProvider } from "./types";
+
+const stopWords = new Set([
+  "the", "and", "for", "with", "that", "this", "have", "has", "was", "are", "our",
+  "will", "should", "need", "let's", "there", "than", "last", "still", "about",
+  "been", "they", "were", "from", "into", "after", "before", "what", "which",
+  "when", "your", "you", "their", "them", "then", "also", "just", "very", "some",
+  "few", "out", "almost", "mostly", "without", "across", "look", "it's", "we",
+]);
+
+const actionPattern = /\b(should|need to|will|must|follow-up|todo)\b/i;
+const decisionPattern = /\b(agreed|decided|decision|approved|settled on|go with)\b/i;
+const deadlinePattern =
+  /\b(today|tonight|tomorrow|(?:next |this )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|week|month|quarter)|end of (?:the )?(?:day|week|month|quarter))\b/i;
+// "A closure is a function that..." -> term "closure"
+const definitionPattern = /^(?:an? |the )?([a-z][\w -]{1,40}?) (?:is|are|means|refers to) (?:an? |the )?\S/i;
+// Object properties in custom templates that name a person
+const personPattern = /\b(owner|speaker|who|person|assignee|name)\b/i;
+// "Speaker 1: ..." or "Dr. Priya Shah: ..." at the start of a turn
+const speakerLabelPattern = /^([A-Z][\w.'-]*(?: [A-Z0-9][\w.'-]*){0,3}):\s+([\s\S]*)$/;
+
+// Limits for lists built from a whole transcript or merged from several parts
+const MAX_KEY_POINTS = 5;
+const MAX_TOPICS = 4;
+const MAX_ITEMS = 10;
+
+interface Sentence {
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Split text into distinct sentences, remembering who said each one when the
+ * text is written as "Speaker: ..." turns
+ */
+function sentencesOf(transcriptText: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const seen = new Set<string>();
+
+  for (const paragraph of transcriptText.split(/\n\s*\n/)) {
+    const label = paragraph.trim().match(speakerLabelPattern);
+    const body = label ? label[2] : paragraph;
+    for (const part of body.split(/(?<=[.!?])\s+/)) {
+      const text = part.trim();
+      if (!text || seen.has(text)) continue;
+      seen.add(text);
+      sentences.push({ text, speaker: label?.[1] });
+    }
+  }
+
+  return sentences;
+}
+
+function speakersOf(sentences: Sentence[]): string[] {
+  return Array.from(new Set(sentences.map((sentence) => sentence.speaker).filter((speaker): speaker is string => !!speaker)));
+}
+
+/**
+ * The most frequent words as topics
+ * Most frequent first, alphabetical to break ties so the order is stable
+ */
+function topicsOf(transcriptText: string, limit: number): Summary["topics"] {
+  const counts = new Map<string, number>();
+  for (const word of transcriptText.toLowerCase().match(/[a-z'-]+/g) || []) {
+    if (word.length < 4 || stopWords.has(word)) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word, count]) => ({
+      topic: word.charAt(0).toUpperCase() + word.slice(1),
+      description: `Mentioned ${count} time${count === 1 ? "" : "s"} in the transcript.`,
+    }));
+}
+
+function overviewOf(sentences: Sentence[], count = 2): string {
+  return sentences.slice(0, count).map((sentence) => sentence.text).join(" ");
+}
+
+const isQuestion = (sentence: Sentence) => sentence.text.endsWith("?");
+
+// "Ship it, Friday!", "ship it friday" and "Speaker 2: Ship it Friday." are the same point
+function normalize(value: string): string {
+  return value
+    .replace(/^[^:]{1,40}:\s+/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Keep the first of each group of items that normalize to the same key
+function dedupe<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const normalized = normalize(key(item));
+    if (seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+}
+
+// Objects are compared by their first field, e.g. a question or a task
+function itemKey(item: unknown): string {
+  if (typeof item === "string") return item;
+  const first = item && typeof item === "object" ? Object.values(item)[0] : undefined;
+  return typeof first === "string" ? first : JSON.stringify(item);
+}
+
+// The spoken text without speaker labels, so names aren't counted as topics
+function spokenText(sentences: Sentence[]): string {
+  return sentences.map((sentence) => sentence.text).join(" ");
+}
+
+function generalSummary(sentences: Sentence[]): SummaryContent<"general"> {
+  return {
+    keyPoints: sentences.slice(0, MAX_KEY_POINTS).map((sentence) => sentence.text),
+    topics: topicsOf(spokenText(sentences), 3),
+    actionItems: sentences
+      .filter((sentence) => actionPattern.test(sentence.text))
+      .slice(0, 5)
+      .map((sentence) => sentence.text),
+  };
+}
+
+function meetingMinutes(sentences: Sentence[]): SummaryContent<"meeting"> {
+  return {
+    overview: overviewOf(sentences),
+    attendees: speakersOf(sentences),
+    decisions: sentences
+      .filter((sentence) => decisionPattern.test(sentence.text))
+      .slice(0, MAX_KEY_POINTS)
+      .map((sentence) => sentence.text),
+    actionItems: sentences
+      .filter((sentence) => actionPattern.test(sentence.text))
+      .slice(0, MAX_ITEMS)
+      .map((sentence) => ({
+        task: sentence.text,
+        owner: sentence.speaker ?? null,
+        deadline: sentence.text.match(deadlinePattern)?.[0] ?? null,
+      })),
+  };
+}
+
+function interviewNotes(sentences: Sentence[]): SummaryContent<"interview"> {
+  // Each question is answered by the sentences up to the next question
+  const qa: { question: string; answer: string[] }[] = [];
+  for (const sentence of sentences) {
+    if (isQuestion(sentence)) {
+      qa.push({ question: sentence.text, answer: [] });
+    } else if (qa.length > 0 && qa[qa.length - 1].answer.length < 3) {
+      qa[qa.length - 1].answer.push(sentence.text);
+    }
+  }
+
+  return {
+    overview: overviewOf(sentences),
+    participants: speakersOf(sentences),
+    qa: qa
+      .filter((pair) => pair.answer.length > 0)
+      .slice(0, MAX_ITEMS)
+      .map((pair) => ({ question: pair.question, answer: pair.answer.join(" ") })),
+    // The longest statements, in the order they were made
+    highlights: sentences
+      .filter((sentence) => !isQuestion(sentence))
+      .map((sentence, index) => ({ sentence, index }))
+      .sort((a, b) => b.sentence.text.length - a.sentence.text.length)
+      .slice(0, 3)
+      .sort((a, b) => a.index - b.index)
+      .map(({ sentence }) => sentence.text),
+  };
+}
+
+function lectureNotes(sentences: Sentence[]): SummaryContent<"lecture"> {
+  const concepts = topicsOf(spokenText(sentences), MAX_TOPICS).map((topic) => ({
+    name: topic.topic,
+    // The first sentence that mentions the concept explains it best
+    explanation:
+      sentences.find((sentence) => sentence.text.toLowerCase().includes(topic.topic.toLowerCase()))?.text ??
+      topic.description,
+  }));
+
+  const definitions = sentences.flatMap((sentence) => {
+    const match = !isQuestion(sentence) && sentence.text.match(definitionPattern);
+    return match ? [{ term: match[1].trim(), definition: sentence.text }] : [];
+  });
+
+  const questions = sentences.filter(isQuestion).map((sentence) => sentence.text);
+
+  return {
+    overview: overviewOf(sentences),
+    concepts,
+    definitions: definitions.slice(0, MAX_KEY_POINTS),
+    reviewQuestions: (questions.length > 0
+      ? questions
+      : concepts.map((concept) => `What does "${concept.name}" refer to in this lecture?`)
+    ).slice(0, MAX_KEY_POINTS),
+  };
+}
+
+function showNotes(sentences: Sentence[]): SummaryContent<"podcast"> {
+  // Up to four chapters of roughly equal length
+  const chapterCount = Math.min(4, sentences.length);
+  const chapterSize = Math.ceil(sentences.length / Math.max(1, chapterCount));
+  const chapters: SummaryContent<"podcast">["chapters"] = [];
+  for (let i = 0; i < sentences.length; i += chapterSize) {
+    const chapter = sentences.slice(i, i + chapterSize);
+    const topic = topicsOf(spokenText(chapter), 1)[0];
+    chapters.push({
+      title: topic ? topic.topic : `Part ${chapters.length + 1}`,
+      summary: chapter[0].text,
+    });
+  }
+
+  const speakers = speakersOf(sentences);
+  // Capitalized words in the middle of a sentence are likely names of things
+  const mentions = sentences.flatMap((sentence) =>
+    (sentence.text.match(/(?<=\s)[A-Z][a-zA-Z]+(?: [A-Z][a-zA-Z]+)*/g) || []).filter(
+      (name) => !speakers.includes(name),
+    ),
+  );
+
+  return {
+    headline: sentences[0]?.text ?? "",
+    episodeSummary: overviewOf(sentences, 3),
+    // The first speaker is taken to be the host
+    guests: speakers.slice(1),
+    chapters,
+    quotes: sentences
+      .filter((sentence) => !isQuestion(sentence))
+      .sort((a, b) => b.text.length - a.text.length)
+      .slice(0, 3)
+      .map((sentence) => (sentence.speaker ? `${sentence.text} (${sentence.speaker})` : sentence.text)),
+    mentions: dedupe(mentions, (name) => name).slice(0, MAX_KEY_POINTS),
+  };
+}
+
+// Words of a custom field's name and description, cut to a rough stem
+function fieldWords(field: SummaryField): string[] {
+  return (`${field.name} ${field.description ?? ""}`.toLowerCase().match(/[a-z'-]+/g) || [])
+    .filter((word) => word.length >= 4 && !stopWords.has(word))
+    .map((word) => word.slice(0, 5));
+}
+
+/**
+ * Sentences that mention the field's words, in transcript order
+ * Falls back to the first sentences when nothing matches
+ */
+function sentencesFor(field: SummaryField, sentences: Sentence[]): Sentence[] {
+  const words = fieldWords(field);
+  const mentions = (word: string) =>
+    word.length >= 3 && !stopWords.has(word) && words.some((stem) => stem.startsWith(word) || word.startsWith(stem));
+  const matching = sentences.filter((sentence) =>
+    (sentence.text.toLowerCase().match(/[a-z'-]+/g) || []).some(mentions),
+  );
+  return (matching.length > 0 ? matching : sentences).slice(0, MAX_KEY_POINTS);
+}
+
+function customSummary(sentences: Sentence[], fields: SummaryField[]): CustomSummaryValues {
+  return Object.fromEntries(
+    fields.map((field) => {
+      switch (field.type) {
+        case "string":
+          return [field.name, overviewOf(sentences)];
+        case "stringList":
+          return [field.name, sentencesFor(field, sentences).map((sentence) => sentence.text)];
+        case "objectList": {
+          // The first property holds the sentence; people properties get its speaker
+          const [first, ...rest] = field.properties ?? [];
+          const items = sentencesFor(field, sentences).map((sentence) =>
+            Object.fromEntries([
+              [first, sentence.text],
+              ...rest.map((property) => [property, personPattern.test(property) ? sentence.speaker ?? "" : ""]),
+            ]),
+          );
+          return [field.name, items];
+        }
+      }
+    }),
+  );
+}
+
+/**
+ * Report a finished summary the way a streamed answer would arrive
+ * There is nothing to wait for, so it is written out a line at a time
+ */
+async function writeOut(summary: SummaryOutput, { onText, signal }: SummaryCallOptions): Promise<SummaryOutput> {
+  if (signal?.aborted) throw new CancelledError("Local summary was cancelled");
+  if (!onText) return summary;
+
+  let text = "";
+  for (const line of JSON.stringify(summary, null, 2).split("\n")) {
+    // Give a cancellation a chance to arrive between lines
+    await new Promise((resolve) => setImmediate(resolve));
+    if (signal?.aborted) throw new CancelledError("Local summary was cancelled");
+    text += (text ? "\n" : "") + line;
+    onText(text);
+  }
+  return summary;
+}
+
+/**
+ * Offline stand-in for the GPT summarizer
+ * Builds extractive summaries: the first distinct sentences as key points and
+ * overviews, the most frequent words as topics, and sentences that look like
+ * follow-ups, decisions, questions or definitions for the template's lists.
+ * Lists in custom templates get the sentences that mention the field's words.
+ */
+export class LocalSummaryProvider implements SummaryProvider {
+  readonly name = "local";
+
+  async summarize(
+    transcriptText: string,
+    template: SummaryTemplateSpec,
+    options: SummaryCallOptions = {},
+  ): Promise<SummaryOutput> {
+    return writeOut(this.extract(sentencesOf(transcriptText), template), options);
+  }
+
+  private extract(sentences: Sentence[], template: SummaryTemplateSpec): SummaryOutput {
+    if (typeof template !== "string") {
+      return customSummary(sentences, template.fields);
+    }
+
+    switch (template) {
+      case "general":
+        return generalSummary(sentences);
+      case "meeting":
+        return meetingMinutes(sentences);
+      case "interview":
+        return interviewNotes(sentences);
+      case "lecture":
+        return lectureNotes(sentences);
+      case "podcast":
+        return showNotes(sentences);
+    }
+  }
+
+  /**
+   * Merge part summaries by dropping duplicates and keeping the earliest items
+   * Parts are in transcript order, so the merged lists follow the recording.
+   * Text fields such as the overview come from the first part that has one.
+   */
+  async merge(
+    partials: SummaryOutput[],
+    template: SummaryTemplateSpec,
+    options: SummaryCallOptions = {},
+  ): Promise<SummaryOutput> {
+    const fields = partials as Record<string, unknown>[];
+    const merged: Record<string, unknown> = {};
+
+    for (const key of Object.keys(fields[0] ?? {})) {
+      const values = fields.map((partial) => partial[key]);
+      if (Array.isArray(values[0])) {
+        const limit = key === "keyPoints" ? MAX_KEY_POINTS : key === "topics" ? MAX_TOPICS : MAX_ITEMS;
+        merged[key] = dedupe(values.flatMap((value) => (Array.isArray(value) ? value : [])), itemKey).slice(0, limit);
+      } else {
+        merged[key] = values.find((value) => typeof value === "string" && value) ?? values[0];
+      }
+    }
+
+    return writeOut(contentSchemaFor(template).parse(merged), options);
+  }
+}
@@ -0,0 +1,360 @@
+import fs from "fs";
+import OpenAI from "openai";
+import { z } from "zod";
+import type { TranscriptionSegment } from "openai/resources/audio/transcriptions";
+import type { TranslationVerbose } from "openai/resources/audio/translations";
+import type { TranscriptionOptions, TranscriptSegment, TranscriptWord } from "@shared/schema";
+import { toLanguageCode } from "@shared/languages";
+import { CircuitBreaker, UpstreamError, resilientCall } from "../resilience";
+import { contentSchemaFor, type SummaryTemplateSpec } from "../customTemplates";
+import type {
+  Answer,
+  AnswerProvider,
+  AnswerTurn,
+  Passage,
+  SummaryCallOptions,
+  SummaryOutput,
+  SummaryProvider,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "./types";
+import { promptFor } from "./summaryPrompts";
+
+const TRANSCRIPTION_MODEL = process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1";
+// Only whisper-1 offers translation, so it is configured separately
+const TRANSLATION_MODEL = process.env.OPENAI_TRANSLATION_MODEL || "whisper-1";
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const SUMMARY_MODEL = process.env.OPENAI_SUMMARY_MODEL || "gpt-4o";
+const ANSWER_MODEL = process.env.OPENAI_ANSWER_MODEL || SUMMARY_MODEL;
+
+// Whisper can take minutes on a full 25MB upload; chat completions are much quicker
+const TRANSCRIPTION_TIMEOUT_MS = parseInt(process.env.OPENAI_TRANSCRIPTION_TIMEOUT_MS || "300000", 10) || 300000;
+const SUMMARY_TIMEOUT_MS = parseInt(process.env.OPENAI_SUMMARY_TIMEOUT_MS || "120000", 10) || 120000;
+
+const breakerThreshold = parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || "5", 10) || 5;
+const breakerCooldownMs = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || "30000", 10) || 30000;
+
+// Whisper and chat completions fail independently, so each gets its own breaker;
+// summaries and answers share the chat completions one
+const transcriptionBreaker = new CircuitBreaker("OpenAI transcription", breakerThreshold, breakerCooldownMs);
+const summaryBreaker = new CircuitBreaker("OpenAI summary", breakerThreshold, breakerCooldownMs);
+
+let client: OpenAI | null = null;
+
+// Created on first use so the app can start without a key when using the local provider
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
+      // Retries and timeouts are handled by resilientCall
+      maxRetries: 0,
+    });
+  }
+  return client;
+}
+
+// Normalize Whisper's snake_case segment fields into our schema
+function toSegments(segments: TranscriptionSegment[] | undefined): TranscriptSegment[] {
+  return (segments || []).map((segment) => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    avgLogProb: segment.avg_logprob,
+    noSpeechProb: segment.no_speech_prob,
+  }));
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = "openai";
+
+  async transcribe(audioFilePath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (options.mode === "translate") {
+      return this.translate(audioFilePath, options);
+    }
+
+    // Call the OpenAI API to transcribe the audio; each attempt needs a fresh stream
+    const transcription = await resilientCall(
+      "OpenAI transcription",
+      (signal) =>
+        getClient().audio.transcriptions.create(
+          {
+            file: fs.createReadStream(audioFilePath),
+            model: TRANSCRIPTION_MODEL,
+            // Naming the language skips detection and helps with short or noisy audio
+            language: options.language,
+            // Context, glossary terms and the end of the previous chunk
+            prompt: options.prompt,
+            response_format: "verbose_json",
+            timestamp_granularities: ["segment", "word"],
+          },
+          { signal },
+        ),
+      { timeoutMs: TRANSCRIPTION_TIMEOUT_MS, breaker: transcriptionBreaker },
+    );
+
+    const segments = toSegments(transcription.segments);
+    const words: TranscriptWord[] = (transcription.words || []).map((word) => ({
+      word: word.word,
+      start: word.start,
+      end: word.end,
+    }));
+
+    return {
+      text: transcription.text,
+      duration: transcription.duration || 0,
+      language: options.language ?? toLanguageCode(transcription.language),
+      segments,
+      words,
+    };
+  }
+
+  // Whisper's translation endpoint takes no language and returns no word timings
+  private async translate(audioFilePath: string, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    // The SDK only types the verbose response for transcriptions
+    const translation = (await resilientCall(
+      "OpenAI translation",
+      (signal) =>
+        getClient().audio.translations.create(
+          {
+            file: fs.createReadStream(audioFilePath),
+            model: TRANSLATION_MODEL,
+            // Should be in English, since it precedes the translated text
+            prompt: options.prompt,
+            response_format: "verbose_json",
+          },
+          { signal },
+        ),
+      { timeoutMs: TRANSCRIPTION_TIMEOUT_MS, breaker: transcriptionBreaker },
+    )) as TranslationVerbose;
+
+    return {
+      text: translation.text,
+      duration: translation.duration || 0,
+      // The reported language is always English, the output; the spoken one is only known if it was chosen
+      language: options.language,
+      segments: toSegments(translation.segments),
+      words: [],
+    };
+  }
+}
+
+export class OpenAISummaryProvider implements SummaryProvider {
+  readonly name = "openai";
+
+  async summarize(
+    transcriptText: string,
+    template: SummaryTemplateSpec,
+    options: SummaryCallOptions = {},
+  ): Promise<SummaryOutput> {
+    const prompt = promptFor(template);
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "system",
+        content: `${prompt.role}
+
+When the transcript is written as "Name: ..." turns, say who made each point and who owns each action item.
+          
+Your response should be formatted in JSON with the following structure:
+${prompt.format}`
+      },
+      {
+        role: "user",
+        content: `Please analyze this transcript and provide a JSON summary with:
+${prompt.instructions}
+
+Here's the transcript:
+${transcriptText}`
+      }
+    ];
+
+    return this.complete(messages, template, options);
+  }
+
+  /**
+   * Combine the summaries of consecutive parts of one transcript
+   */
+  async merge(
+    partials: SummaryOutput[],
+    template: SummaryTemplateSpec,
+    options: SummaryCallOptions = {},
+  ): Promise<SummaryOutput> {
+    const prompt = promptFor(template);
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "system",
+        content: `${prompt.role}
+
+You are given JSON summaries of consecutive parts of one long transcript, in order. Merge them into a single summary of the whole transcript: combine items that say the same thing, keep the most important ones, keep everything in the order it happened, and keep the names of who said or owns what.
+
+Your response should be formatted in JSON with the same structure as the part summaries:
+${prompt.format}`
+      },
+      {
+        role: "user",
+        content: `Please merge these part summaries into one summary with:
+${prompt.instructions}
+
+Here are the part summaries:
+${JSON.stringify(partials, null, 2)}`
+      }
+    ];
+
+    return this.complete(messages, template, options);
+  }
+
+  // Ask for a JSON summary and read it back in the template's shape. With
+  // onText the answer is streamed and reported as it arrives
+  private async complete(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    template: SummaryTemplateSpec,
+    { onText, signal }: SummaryCallOptions,
+  ): Promise<SummaryOutput> {
+    const request = {
+      model: SUMMARY_MODEL,
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.5,
+    } as const;
+
+    const content = await resilientCall(
+      "OpenAI summary",
+      async (attemptSignal) => {
+        if (!onText) {
+          const response = await getClient().chat.completions.create(request, { signal: attemptSignal });
+          return response.choices[0].message.content;
+        }
+
+        const stream = await getClient().chat.completions.create({ ...request, stream: true }, { signal: attemptSignal });
+        let text = "";
+        onText(text);
+        for await (const chunk of stream) {
+          text += chunk.choices[0]?.delta?.content ?? "";
+          onText(text);
+        }
+        return text;
+      },
+      { timeoutMs: SUMMARY_TIMEOUT_MS, breaker: summaryBreaker, signal },
+    );
+
+    // Truncated or malformed output is reported like a rejected request
+    // rather than as a server error, as with answers
+    let summaryContent: any;
+    try {
+      summaryContent = content ? JSON.parse(content) : {};
+    } catch {
+      throw new UpstreamError("UPSTREAM_REJECTED", "OpenAI summary was not valid JSON");
+    }
+
+    if (template !== "general") {
+      const parsed = contentSchemaFor(template).safeParse(summaryContent);
+      if (!parsed.success) {
+        throw new UpstreamError("UPSTREAM_REJECTED", `OpenAI summary did not match the ${template} template`);
+      }
+      return parsed.data;
+    }
+
+    return {
+      keyPoints: summaryContent.keyPoints || [],
+      topics: summaryContent.topics || [],
+      actionItems: summaryContent.actionItems || []
+    };
+  }
+}
+
+// "[2] 03:12–03:40 Priya: ..." so the model can cite excerpts by number
+function formatPassage(passage: Passage): string {
+  const timing = passage.start !== undefined
+    ? ` ${formatTimestamp(passage.start)}–${formatTimestamp(passage.end ?? passage.start)}`
+    : "";
+  return `[${passage.id}]${timing}\n${passage.text}`;
+}
+
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+// The JSON an answer is asked for
+const answerSchema = z.object({
+  answer: z.string().min(1),
+  sources: z.array(z.number().int()).default([]),
+});
+
+/**
+ * Read the model's answer, checking it has the asked-for shape and only cites
+ * excerpts it was given. A bad answer is reported like a rejected request
+ * rather than as a server error
+ */
+function parseAnswer(content: string | null, passages: Passage[]): Answer {
+  let json: unknown;
+  try {
+    json = JSON.parse(content ?? "");
+  } catch {
+    throw new UpstreamError("UPSTREAM_REJECTED", "OpenAI answer was not valid JSON");
+  }
+
+  const parsed = answerSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new UpstreamError("UPSTREAM_REJECTED", "OpenAI answer did not have the expected answer and sources");
+  }
+
+  const ids = new Set(passages.map((passage) => passage.id));
+  const unknown = parsed.data.sources.filter((id) => !ids.has(id));
+  if (unknown.length > 0) {
+    throw new UpstreamError("UPSTREAM_REJECTED", `OpenAI answer cited excerpts it wasn't given: ${unknown.join(", ")}`);
+  }
+
+  return { answer: parsed.data.answer, sources: Array.from(new Set(parsed.data.sources)) };
+}
+
+export class OpenAIAnswerProvider implements AnswerProvider {
+  readonly name = "openai";
+
+  async answer(question: string, passages: Passage[], history: AnswerTurn[]): Promise<Answer> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: "system",
+        content: `You answer questions about a transcript using only the numbered excerpts from it that you are given. Say who said what when the excerpts name speakers. If the excerpts don't answer the question, say that the transcript doesn't seem to cover it rather than guessing.
+
+Your response should be formatted in JSON with the following structure:
+{
+  "answer": "A short answer in plain text",
+  "sources": [1, 3]
+}
+where "sources" lists the numbers of the excerpts the answer is based on.`
+      },
+      // Earlier turns, so follow-up questions can refer back to them
+      ...history.flatMap((turn): OpenAI.Chat.ChatCompletionMessageParam[] => [
+        { role: "user", content: turn.question },
+        { role: "assistant", content: JSON.stringify({ answer: turn.answer }) },
+      ]),
+      {
+        role: "user",
+        content: `Excerpts from the transcript:
+${passages.map(formatPassage).join("\n\n")}
+
+Question: ${question}`
+      }
+    ];
+
+    const content = await resilientCall(
+      "OpenAI answer",
+      async (signal) => {
+        const response = await getClient().chat.completions.create(
+          {
+            model: ANSWER_MODEL,
+            messages,
+            response_format: { type: "json_object" },
+            temperature: 0.2,
+          },
+          { signal },
+        );
+        return response.choices[0].message.content;
+      },
+      { timeoutMs: SUMMARY_TIMEOUT_MS, breaker: summaryBreaker },
+    );
+
+    return parseAnswer(content, passages);
+  }
+}
@@ -0,0 +1,94 @@
+import type { SummaryTemplateId } from "@shared/summaryTemplates";
+import { customSummaryPrompt, type SummaryTemplateSpec } from "../customTemplates";
+
+export interface SummaryPrompt {
+  // What the model is, for the system message
+  role: string;
+  // Numbered list of the fields to fill in
+  instructions: string;
+  // Example of the JSON to return
+  format: string;
+}
+
+/**
+ * Prompts for each summary template, matching the schemas in shared/summaryTemplates.ts
+ */
+export const summaryPrompts: Record<SummaryTemplateId, SummaryPrompt> = {
+  general: {
+    role: "You are an expert summarizer. Extract key information from transcripts and organize them into a clear, structured format. Be concise but comprehensive.",
+    instructions: `1. keyPoints: Array of the 3-5 most important points
+2. topics: Array of 2-4 main topics with topic name and description
+3. actionItems: Optional array of action items or next steps if mentioned`,
+    format: `{
+  "keyPoints": ["point 1", "point 2", "point 3", "point 4", "point 5"],
+  "topics": [
+    { "topic": "Topic Name 1", "description": "Brief description of topic 1" },
+    { "topic": "Topic Name 2", "description": "Brief description of topic 2" }
+  ],
+  "actionItems": ["action 1", "action 2"] // optional, only if actions are mentioned
+}`,
+  },
+  meeting: {
+    role: "You are an experienced minute taker. Write accurate, neutral meeting minutes from a meeting transcript.",
+    instructions: `1. overview: Two or three sentences on the purpose and outcome of the meeting
+2. attendees: Names of the people who spoke or were mentioned as present
+3. decisions: Array of decisions that were agreed
+4. actionItems: Array of tasks, each with the owner and deadline when they were said (otherwise null)`,
+    format: `{
+  "overview": "...",
+  "attendees": ["name 1", "name 2"],
+  "decisions": ["decision 1"],
+  "actionItems": [{ "task": "...", "owner": "name or null", "deadline": "as said, e.g. Friday, or null" }]
+}`,
+  },
+  interview: {
+    role: "You are an editor who prepares interview transcripts for publication.",
+    instructions: `1. overview: Two or three sentences on who was interviewed and what about
+2. participants: Names of the interviewer and interviewees, when given
+3. qa: Array of the substantive questions asked, each with a faithful summary of the answer
+4. highlights: The 3-5 most notable statements, close to the speaker's words`,
+    format: `{
+  "overview": "...",
+  "participants": ["name 1", "name 2"],
+  "qa": [{ "question": "...", "answer": "..." }],
+  "highlights": ["..."]
+}`,
+  },
+  lecture: {
+    role: "You are a teaching assistant who turns lecture recordings into study notes.",
+    instructions: `1. overview: Two or three sentences on what the lecture covered
+2. concepts: Array of the main concepts taught, each with a short explanation
+3. definitions: Array of terms that were defined, each with its definition
+4. reviewQuestions: 3-5 questions a student could use to check their understanding`,
+    format: `{
+  "overview": "...",
+  "concepts": [{ "name": "...", "explanation": "..." }],
+  "definitions": [{ "term": "...", "definition": "..." }],
+  "reviewQuestions": ["..."]
+}`,
+  },
+  podcast: {
+    role: "You are a podcast producer who writes engaging but accurate show notes.",
+    instructions: `1. headline: A one-line hook for the episode
+2. episodeSummary: A short paragraph describing the episode
+3. guests: Names of the guests, when given
+4. chapters: Array of the episode's sections in order, each with a title and one-sentence summary
+5. quotes: 2-4 memorable quotes, in the speaker's words
+6. mentions: Books, products, people, websites or other resources mentioned`,
+    format: `{
+  "headline": "...",
+  "episodeSummary": "...",
+  "guests": ["name 1"],
+  "chapters": [{ "title": "...", "summary": "..." }],
+  "quotes": ["..."],
+  "mentions": ["..."]
+}`,
+  },
+};
+
+/**
+ * The prompt for a built-in template, or one written from a custom template's fields
+ */
+export function promptFor(template: SummaryTemplateSpec): SummaryPrompt {
+  return typeof template === "string" ? summaryPrompts[template] : customSummaryPrompt(template);
+}
@@ -0,0 +1,91 @@
+import type { TranscriptionOptions, TranscriptSegment, TranscriptWord } from "@shared/schema";
+import type { CustomSummaryValues, SummaryContent } from "@shared/summaryTemplates";
+import type { SummaryTemplateSpec } from "../customTemplates";
+
+export interface TranscriptionResult {
+  text: string;
+  duration: number;
+  // ISO-639-1 code of the spoken language, if it was given or the provider reported a known one
+  language?: string;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+/**
+ * Turns an audio file into timestamped text
+ * In "translate" mode the text is English whatever language is spoken
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audioFilePath: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// Summary fields without the template name, as a provider returns them
+export type SummaryOutput = SummaryContent | CustomSummaryValues;
+
+// Lets the caller watch a summary being written, and stop it
+export interface SummaryCallOptions {
+  // Called with the answer's JSON text so far. A retry starts over from ""
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns transcript text into a structured summary in the shape of a template
+ * Built-in templates have known shapes; custom ones are shaped by their fields
+ * Long transcripts are summarized in parts, which merge then combines into one
+ */
+export interface SummaryProvider {
+  readonly name: string;
+  summarize(transcriptText: string, template: SummaryTemplateSpec, options?: SummaryCallOptions): Promise<SummaryOutput>;
+  merge(partials: SummaryOutput[], template: SummaryTemplateSpec, options?: SummaryCallOptions): Promise<SummaryOutput>;
+}
+
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  // Provider's own label, e.g. "SPEAKER_00"; renamed to "Speaker 1" and so on afterwards
+  speaker: string;
+}
+
+/**
+ * Works out who spoke when
+ * Gets the transcribed segments too, so a provider may use their timing and text
+ */
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(audioFilePath: string, segments: TranscriptSegment[]): Promise<SpeakerTurn[]>;
+}
+
+// A retrieved part of a transcript. Ids number the passages from 1 in the order given
+export interface Passage {
+  id: number;
+  text: string;
+  speaker?: string;
+  // Seconds, when the transcript has segments
+  start?: number;
+  end?: number;
+  // How well the passage matched the question; 0 when it was only added for context
+  score: number;
+}
+
+// An earlier question and answer about the same transcript
+export interface AnswerTurn {
+  question: string;
+  answer: string;
+}
+
+export interface Answer {
+  answer: string;
+  // Ids of the passages the answer is based on
+  sources: number[];
+}
+
+/**
+ * Answers a question about a transcript from its most relevant passages
+ * Earlier turns let follow-up questions refer back to them
+ */
+export interface AnswerProvider {
+  readonly name: string;
+  answer(question: string, passages: Passage[], history: AnswerTurn[]): Promise<Answer>;
+}
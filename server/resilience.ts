@@ -0,0 +1,243 @@
+import type { UpstreamErrorCode } from "@shared/schema";
+
+/**
+ * Failure of a call to an upstream AI provider, classified so routes and
+ * clients can react to it without knowing which vendor was called
+ */
+export class UpstreamError extends Error {
+  code: UpstreamErrorCode;
+  // HTTP status returned by the provider, if it answered at all
+  status?: number;
+  // Seconds the provider asked us to wait before trying again
+  retryAfter?: number;
+
+  constructor(code: UpstreamErrorCode, message: string, details: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = "UpstreamError";
+    this.code = code;
+    this.status = details.status;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The caller gave up on an upstream call, e.g. because the client went away
+ * Not a provider failure, so it is never retried or counted by the breaker
+ */
+export class CancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Stops calling a provider that keeps failing
+ * After `threshold` consecutive outage failures the breaker opens and calls fail
+ * immediately for `cooldownMs`. Then a single trial call is let through: success
+ * closes the breaker, failure opens it again.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures: number;
+  private openedAt: number | null;
+  private trialInFlight: boolean;
+
+  constructor(
+    readonly name: string,
+    private threshold: number,
+    private cooldownMs: number,
+  ) {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Throw if calls are currently blocked
+   */
+  beforeCall(): void {
+    if (this.openedAt === null) return;
+
+    const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+    if (remainingMs > 0 || this.trialInFlight) {
+      throw new UpstreamError(
+        "UPSTREAM_UNAVAILABLE",
+        `${this.name} is temporarily unavailable after repeated failures`,
+        { retryAfter: Math.max(1, Math.ceil(remainingMs / 1000)) },
+      );
+    }
+
+    // Cooldown is over: let one call through to see if the provider recovered
+    this.trialInFlight = true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  // A cancelled call says nothing about the provider; let another trial through
+  recordCancelled(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.trialInFlight || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+}
+
+export interface ResilientCallOptions {
+  // Total attempts including the first one
+  attempts?: number;
+  // Backoff for the first retry; doubles for each retry after that
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Longest Retry-After we are willing to wait for before giving up
+  maxRetryAfterMs?: number;
+  // Abort an attempt that takes longer than this
+  timeoutMs?: number;
+  breaker?: CircuitBreaker;
+  // Aborts the current attempt and stops retrying
+  signal?: AbortSignal;
+}
+
+const defaultOptions = {
+  attempts: parseInt(process.env.UPSTREAM_MAX_ATTEMPTS || "4", 10) || 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  maxRetryAfterMs: 60000,
+  timeoutMs: 120000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read a Retry-After value from response headers
+ * Supports OpenAI's retry-after-ms, and Retry-After as seconds or an HTTP date
+ * @returns Seconds to wait, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(headers: unknown): number | undefined {
+  if (!headers) return undefined;
+
+  const get = (name: string): string | undefined =>
+    typeof (headers as Headers).get === "function"
+      ? (headers as Headers).get(name) ?? undefined
+      : (headers as Record<string, string | undefined>)[name];
+
+  const ms = parseFloat(get("retry-after-ms") || "");
+  if (Number.isFinite(ms) && ms >= 0) return ms / 1000;
+
+  const value = get("retry-after");
+  if (!value) return undefined;
+
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Turn whatever the provider SDK threw into an UpstreamError
+ * 429 is a rate limit, 408/409/5xx and network errors are outages,
+ * any other status means the provider rejected the request
+ */
+export function classifyError(error: any, label: string): UpstreamError {
+  if (error instanceof UpstreamError) return error;
+
+  const status: number | undefined = typeof error?.status === "number" ? error.status : undefined;
+  const detail = error?.error?.message || error?.message || "Unknown error";
+
+  if (status === 429) {
+    return new UpstreamError("UPSTREAM_RATE_LIMITED", `${label} rate limit reached: ${detail}`, {
+      status,
+      retryAfter: parseRetryAfter(error.headers),
+    });
+  }
+
+  if (status === undefined || status === 408 || status === 409 || status >= 500) {
+    return new UpstreamError("UPSTREAM_UNAVAILABLE", `${label} is unavailable: ${detail}`, { status });
+  }
+
+  return new UpstreamError("UPSTREAM_REJECTED", `${label} rejected the request: ${detail}`, { status });
+}
+
+/**
+ * Call an upstream provider with retries, timeouts and a circuit breaker
+ * Rate limits and outages are retried with exponential backoff and full jitter,
+ * honouring Retry-After when the provider sends it. Rejections are not retried.
+ * @param label Provider name used in error messages
+ * @param call Makes one attempt; must stop when the signal aborts
+ * @param options Retry, timeout and breaker settings
+ * @returns The result of the first successful attempt
+ */
+export async function resilientCall<T>(
+  label: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: ResilientCallOptions = {},
+): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs, maxRetryAfterMs, timeoutMs } = { ...defaultOptions, ...options };
+  const { breaker, signal } = options;
+  const cancelled = () => new CancelledError(`${label} was cancelled`);
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw cancelled();
+    breaker?.beforeCall();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort);
+
+    let failure: UpstreamError;
+    try {
+      const result = await call(controller.signal);
+      breaker?.recordSuccess();
+      return result;
+    } catch (error: any) {
+      if (signal?.aborted && !timedOut) {
+        breaker?.recordCancelled();
+        throw cancelled();
+      }
+      failure = timedOut
+        ? new UpstreamError("UPSTREAM_UNAVAILABLE", `${label} did not respond within ${timeoutMs / 1000}s`)
+        : classifyError(error, label);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+
+    // Only outages count towards opening the breaker; a rejection or a rate
+    // limit means the provider is up and answering
+    if (failure.code === "UPSTREAM_UNAVAILABLE") {
+      breaker?.recordFailure();
+    } else {
+      breaker?.recordSuccess();
+    }
+
+    if (failure.code === "UPSTREAM_REJECTED" || attempt >= attempts) {
+      throw failure;
+    }
+
+    let delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    if (failure.retryAfter !== undefined) {
+      // Waiting longer than this would leave the caller hanging; let them decide
+      if (failure.retryAfter * 1000 > maxRetryAfterMs) {
+        throw failure;
+      }
+      delayMs = failure.retryAfter * 1000;
+    }
+
+    console.warn(`${failure.message}; retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1} of ${attempts})`);
+    await sleep(delayMs);
+  }
+}
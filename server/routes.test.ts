@@ -0,0 +1,98 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { setProviders } from "./providers";
+import { LocalSummaryProvider } from "./providers/localSummary";
+import { LocalAnswerProvider } from "./providers/localAnswer";
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+let userId: number;
+
+before(async () => {
+  setProviders({ summary: new LocalSummaryProvider(), answer: new LocalAnswerProvider() });
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  const res = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: `routes-${Date.now()}`, password: "correct horse battery" }),
+  });
+  cookie = res.headers.get("set-cookie")!.split(";")[0];
+  userId = (await res.json()).id;
+});
+
+after(async () => {
+  setProviders({ summary: null, answer: null });
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie, ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function saveTranscript(text: string) {
+  return storage.createTranscript({ userId, title: "Call", filename: "call.mp3", text });
+}
+
+test("POST /api/summarize summarizes a saved transcript too long to send as JSON", async () => {
+  // Well over express.json()'s default 100kb limit
+  const text = Array.from({ length: 3000 }, (_, i) => `Point ${i} is about the quarterly budget.`).join(" ");
+  const transcript = await saveTranscript(text);
+
+  const res = await post("/api/summarize", { transcriptId: transcript.id, template: "general" });
+  const summary = await res.json();
+
+  assert.equal(res.status, 200);
+  assert.equal(summary.template, "general");
+  assert.ok(summary.chunkCount > 1);
+  assert.equal((await storage.getSummary(transcript.id))?.chunkCount, summary.chunkCount);
+});
+
+test("POST /api/summarize needs text or a transcript", async () => {
+  assert.equal((await post("/api/summarize", { template: "general" })).status, 400);
+  assert.equal((await post("/api/summarize", { transcriptId: 999999 })).status, 404);
+});
+
+test("POST /api/summarize summarizes text that wasn't saved", async () => {
+  const res = await post("/api/summarize", { text: "We should ship on Friday. The budget is fine." });
+
+  assert.equal(res.status, 200);
+  assert.equal((await res.json()).template, "general");
+});
+
+test("POST /api/summarize streams a saved transcript's summary as events", async () => {
+  const transcript = await saveTranscript("We agreed to ship in March. Sam will update the budget by Friday.");
+
+  const res = await post(
+    "/api/summarize",
+    { transcriptId: transcript.id, template: "meeting" },
+    { Accept: "text/event-stream" },
+  );
+  const body = await res.text();
+  const events = body
+    .split("\n\n")
+    .filter((block) => block.startsWith("event: "))
+    .map((block) => JSON.parse(block.slice(block.indexOf("data: ") + "data: ".length)));
+
+  assert.equal(res.headers.get("content-type"), "text/event-stream");
+  assert.equal(events[0].type, "start");
+  assert.ok(events.some((event) => event.type === "text"));
+  assert.equal(events[events.length - 1].type, "done");
+  assert.equal(events[events.length - 1].summary.template, "meeting");
+});
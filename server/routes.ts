@@ -1,57 +1,49 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import fs from "fs";
 import path from "path";
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { transcribeAudio } from "./transcription";
 import { generateSummary } from "./summary";
+import { answerQuestion } from "./ask";
+import { transcribeUpload } from "./pipeline";
+import { jobs } from "./jobs";
+import { setupAuth, requireAuth } from "./auth";
+import { CancelledError, UpstreamError } from "./resilience";
+import { AudioProcessingError, inspectUpload } from "./audio";
+import { setupLiveTranscription } from "./live";
+import { uploads, UploadError, UPLOAD_CHUNK_SIZE } from "./uploads";
+import { createZip, type ZipEntry } from "./zip";
 import { z } from "zod";
-import { transcriptionSchema, summarySchema } from "@shared/schema";
-
-// Promisify exec for easier async/await usage
-const execAsync = promisify(exec);
-
-/**
- * Compresses an audio file using FFmpeg to reduce its size
- * Uses Opus codec at low bitrate optimized for speech
- * @param inputPath Path to the original audio file
- * @returns Path to the compressed audio file
- */
-async function compressAudioFile(inputPath: string): Promise<string> {
-  const outputDir = path.dirname(inputPath);
-  const outputPath = path.join(outputDir, `compressed-${path.basename(inputPath)}.ogg`);
-  
-  try {
-    // Command based on the provided FFmpeg settings
-    // -vn: No video
-    // -map_metadata -1: Remove metadata
-    // -ac 1: Convert to mono (1 audio channel)
-    // -c:a libopus: Use Opus codec
-    // -b:a 12k: Set bitrate to 12 kbps
-    // -application voip: Optimize for voice
-    const command = `ffmpeg -i "${inputPath}" -vn -map_metadata -1 -ac 1 -c:a libopus -b:a 12k -application voip "${outputPath}"`;
-    
-    // Execute FFmpeg command
-    await execAsync(command);
-    
-    // Check if output file exists and has content
-    if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
-      throw new Error("Failed to compress audio: Output file is missing or empty");
-    }
-    
-    // Delete the original file to save space
-    fs.unlinkSync(inputPath);
-    
-    return outputPath;
-  } catch (error) {
-    console.error("Error compressing audio:", error);
-    // If compression fails, return the original file path
-    return inputPath;
-  }
-}
+import {
+  findSupportedFormat,
+  unsupportedFormatMessage,
+  maxUploadSize,
+  createUploadSchema,
+  completeUploadSchema,
+  transcriptionOptionsSchema,
+  summarySchema,
+  updateTranscriptSchema,
+  renameSpeakerSchema,
+  askQuestionSchema,
+  listTranscriptsQuerySchema,
+  insertGlossaryTermSchema,
+  updateGlossaryTermSchema,
+  insertCustomSummaryTemplateSchema,
+  updateCustomSummaryTemplateSchema,
+  type JobEvent,
+  type MediaInfo,
+  type TranscriptionOptions,
+  type TranscriptWithSummary,
+} from "@shared/schema";
+import { speakerLabelledText } from "@shared/speakers";
+import {
+  summaryTemplateIds,
+  templatedSummarySchema,
+  toSummaryRecord,
+  type SummaryStreamEvent,
+} from "@shared/summaryTemplates";
+import { formatSubtitles, subtitleFormats, subtitleMimeTypes, subtitleOptionsSchema } from "@shared/subtitles";
 
 // Create upload directory if it doesn't exist
 const uploadDir = path.join(process.cwd(), "tmp", "uploads");
@@ -71,130 +63,454 @@ const upload = multer({
     },
   }),
   limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB - we'll compress larger files
+    fileSize: maxUploadSize, // 100MB - we'll compress larger files
   },
   fileFilter: (req, file, cb) => {
-    // Accept only audio files
-    const allowedMimes = [
-      "audio/mpeg",
-      "audio/wav",
-      "audio/mp4",
-      "audio/x-m4a",
-    ];
-    
-    if (allowedMimes.includes(file.mimetype)) {
+    // Accept the shared list of audio and video formats
+    if (findSupportedFormat(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error("Invalid file type. Only MP3, WAV, and M4A files are allowed.") as any);
+      cb(new Error(unsupportedFormatMessage) as any);
     }
   },
 });
 
+const exportQuerySchema = subtitleOptionsSchema.extend({
+  format: z.enum(subtitleFormats),
+});
+
+// ?ids=1,2,3 for downloading several transcripts at once
+const archiveQuerySchema = z.object({
+  ids: z
+    .string()
+    .transform((value) => value.split(",").map(Number))
+    .pipe(z.array(z.number().int().positive()).min(1).max(100)),
+});
+
+// HTTP status sent to the browser for each upstream failure
+const upstreamStatus: Record<UpstreamError["code"], number> = {
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503,
+  UPSTREAM_REJECTED: 502,
+};
+
+// Respond with the error code instead of forwarding the provider's raw status
+function sendUpstreamError(res: Response, error: UpstreamError) {
+  if (error.retryAfter !== undefined) {
+    res.setHeader("Retry-After", String(Math.ceil(error.retryAfter)));
+  }
+  return res.status(upstreamStatus[error.code]).json({
+    message: error.message,
+    code: error.code,
+    retryAfter: error.retryAfter,
+  });
+}
+
+// Parse a numeric route parameter, returning undefined when it isn't a positive integer
+function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// HTTP status sent for each rejected upload request
+const uploadErrorStatus: Record<UploadError["code"], number> = {
+  NOT_FOUND: 404,
+  OFFSET_MISMATCH: 409,
+  BUSY: 409,
+  INCOMPLETE: 409,
+  CHECKSUM_MISMATCH: 422,
+  TOO_LARGE: 413,
+};
+
+// Include the current offset so the client can resume from it
+function sendUploadError(res: Response, error: UploadError) {
+  return res.status(uploadErrorStatus[error.code]).json({
+    message: error.message,
+    code: error.code,
+    offset: error.offset,
+  });
+}
+
+// File name without extension or characters that upset browsers and file systems
+function downloadBaseName(title: string): string {
+  return title.replace(/\.[^/.]+$/, "").replace(/[^\w.-]+/g, "_") || "transcript";
+}
+
+/**
+ * Check an uploaded file and queue its transcription
+ * The file is deleted if it turns out not to be a recording
+ * @returns The queued job and what the probe found
+ */
+async function queueTranscription(
+  userId: number,
+  filePath: string,
+  originalName: string,
+  size: number,
+  summarize: boolean,
+  options: TranscriptionOptions,
+) {
+  // Check the file really is a recording before queueing it
+  let media: MediaInfo;
+  try {
+    media = await inspectUpload(filePath);
+  } catch (error) {
+    fs.unlink(filePath, (err) => {
+      if (err) console.error("Error removing rejected upload:", err);
+    });
+    throw error;
+  }
+  
+  const job = jobs.submit(userId, originalName, size, async (reporter) => {
+    // Read when the job starts, so terms added while it waited are used
+    const glossary = await storage.listGlossaryTerms(userId);
+    const transcription = await transcribeUpload(filePath, originalName, media, options, glossary, reporter);
+    
+    // Save the transcript so it survives a page refresh
+    const transcript = await storage.createTranscript({
+      userId,
+      title: originalName,
+      filename: originalName,
+      text: transcription.text,
+      duration: transcription.duration ?? null,
+      language: transcription.language ?? null,
+      mode: options.mode,
+      segments: transcription.segments ?? null,
+      words: transcription.words ?? null,
+      wasCompressed: transcription.wasCompressed ?? false,
+      chunkCount: transcription.chunkCount ?? 1,
+      media,
+    });
+    const result = { ...transcription, media, transcriptId: transcript.id };
+    
+    if (!summarize || !result.text) {
+      return { result };
+    }
+    
+    reporter.setStatus("summarizing");
+    reporter.report("summary_started", "Generating summary");
+    const summary = await generateSummary(result.text, result.segments);
+    await storage.saveSummary(toSummaryRecord(summary, transcript.id));
+    reporter.report("summary_generated", "Summary generated");
+    return { result, summary: summarySchema.parse(summary) };
+  });
+  
+  return { job, media };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the register/login/logout routes
+  const authenticateUpgrade = setupAuth(app);
+
   // API route for transcribing audio
-  app.post("/api/transcribe", upload.single("file"), async (req, res) => {
+  // Queues a transcription job and responds immediately with its id
+  app.post("/api/transcribe", requireAuth, upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No audio file provided" });
       }
       
-      const filePath = req.file.path;
+      // Optionally generate the summary as part of the job
+      const summarize = req.body?.summarize === "true";
+      // Form fields; an empty or "auto" language means detect it
+      const options = transcriptionOptionsSchema.safeParse({
+        language: req.body?.language && req.body.language !== "auto" ? req.body.language : undefined,
+        mode: req.body?.mode || undefined,
+        prompt: req.body?.prompt || undefined,
+      });
+      if (!options.success) {
+        fs.unlink(req.file.path, (err) => {
+          if (err) console.error("Error removing rejected upload:", err);
+        });
+        return res.status(400).json({ message: "Invalid request data", errors: options.error.errors });
+      }
+      
+      const { job, media } = await queueTranscription(req.user!.id, req.file.path, req.file.originalname, req.file.size, summarize, options.data);
+      
+      return res.status(202).json({ jobId: job.id, status: job.status, media });
+    } catch (error: any) {
+      console.error("Transcription error:", error);
+      
+      if (error instanceof AudioProcessingError && error.code === "INVALID_INPUT") {
+        return res.status(422).json({ message: error.message });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to queue transcription" });
+    }
+  });
+
+  // Resumable uploads for large files on unreliable connections
+  // Create an upload, PATCH chunks at the current offset, then complete it
+  app.post("/api/uploads", requireAuth, (req, res) => {
+    try {
+      const details = createUploadSchema.parse(req.body);
+      const status = uploads.create(req.user!.id, details);
+      return res.status(201).json(status);
+    } catch (error: any) {
+      console.error("Error creating upload:", error);
       
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to create upload" });
+    }
+  });
+
+  // How much of an upload has arrived, so the client knows where to resume
+  app.get("/api/uploads/:id", requireAuth, (req, res) => {
+    const status = uploads.get(req.user!.id, req.params.id);
+    
+    if (!status) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    
+    return res.status(200).json(status);
+  });
+
+  // Append a chunk; Upload-Offset says where it starts and the optional
+  // Upload-Checksum header carries its base64 SHA-256
+  app.patch(
+    "/api/uploads/:id",
+    requireAuth,
+    express.raw({ type: "application/offset+octet-stream", limit: UPLOAD_CHUNK_SIZE }),
+    async (req, res) => {
       try {
-        let audioPath = filePath;
-        let wasCompressed = false;
-        
-        try {
-          // Get file size in bytes
-          const fileSize = fs.statSync(filePath).size;
-          const maxWhisperFileSize = 25 * 1024 * 1024; // 25MB OpenAI limit
-          
-          // If file is larger than Whisper's limit, compress it
-          if (fileSize > maxWhisperFileSize) {
-            console.log(`Audio file is ${(fileSize / (1024 * 1024)).toFixed(2)}MB, compressing...`);
-            audioPath = await compressAudioFile(filePath);
-            wasCompressed = (audioPath !== filePath);
-            
-            // Check size after compression
-            const newSize = fs.statSync(audioPath).size;
-            console.log(`Compression complete. New size: ${(newSize / (1024 * 1024)).toFixed(2)}MB`);
-            
-            // If still too large, throw error
-            if (newSize > maxWhisperFileSize) {
-              throw new Error(`File still too large after compression (${(newSize / (1024 * 1024)).toFixed(2)}MB). Try a shorter audio clip.`);
-            }
-          }
-          
-          // Transcribe the audio file
-          const transcription = await transcribeAudio(audioPath);
-          
-          // Validate the response
-          const validatedTranscription = transcriptionSchema.parse({
-            text: transcription.text,
-            duration: transcription.duration,
-            filename: req.file.originalname,
-            wasCompressed: wasCompressed
-          });
-          
-          // Return the transcription
-          return res.status(200).json(validatedTranscription);
-        } finally {
-          // Clean up temp files in either case (success or error)
-          if (fs.existsSync(audioPath)) {
-            fs.unlink(audioPath, (err) => {
-              if (err) console.error("Error removing temp file:", err);
-            });
-          }
-          
-          // If we created a new compressed file and the original still exists
-          if (wasCompressed && fs.existsSync(filePath)) {
-            fs.unlink(filePath, (err) => {
-              if (err) console.error("Error removing original file:", err);
-            });
-          }
+        const offset = Number(req.get("Upload-Offset"));
+        if (!Number.isInteger(offset) || offset < 0 || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send the chunk as application/offset+octet-stream with an Upload-Offset header" });
         }
+        
+        const status = await uploads.append(req.user!.id, req.params.id, offset, req.body, req.get("Upload-Checksum"));
+        return res.status(200).json(status);
       } catch (error: any) {
-        // Handle specific OpenAI API errors
-        if (error.response && error.response.status) {
-          const status = error.response.status;
-          const message = error.response.data?.error?.message || "OpenAI API error";
-          return res.status(status).json({ message });
+        if (error instanceof UploadError) {
+          return sendUploadError(res, error);
         }
         
-        throw error;
+        console.error("Error appending to upload:", error);
+        return res.status(500).json({ message: error.message || "Failed to save chunk" });
       }
+    },
+  );
+
+  // Verify the assembled file and queue it like a regular upload
+  app.post("/api/uploads/:id/complete", requireAuth, async (req, res) => {
+    try {
+      const { summarize, ...options } = completeUploadSchema.parse(req.body ?? {});
+      const { job, media } = await uploads.complete(req.user!.id, req.params.id, (file) =>
+        queueTranscription(req.user!.id, file.filePath, file.filename, file.size, summarize ?? false, options),
+      );
+      
+      return res.status(202).json({ jobId: job.id, status: job.status, media });
     } catch (error: any) {
-      console.error("Transcription error:", error);
-      return res.status(500).json({ message: error.message || "Failed to transcribe audio" });
+      if (error instanceof UploadError) {
+        return sendUploadError(res, error);
+      }
+      
+      console.error("Error completing upload:", error);
+      
+      if (error instanceof AudioProcessingError && error.code === "INVALID_INPUT") {
+        return res.status(422).json({ message: error.message });
+      }
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to queue transcription" });
     }
   });
 
+  app.delete("/api/uploads/:id", requireAuth, (req, res) => {
+    if (!uploads.cancel(req.user!.id, req.params.id)) {
+      return res.status(404).json({ message: "Upload not found" });
+    }
+    
+    return res.status(204).end();
+  });
+
+  // API route for checking on a transcription job
+  app.get("/api/jobs/:id", requireAuth, (req, res) => {
+    const job = jobs.get(req.user!.id, req.params.id);
+    
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    
+    return res.status(200).json(job);
+  });
+
+  // Server-Sent Events stream of a job's stage events
+  // Replays events that already happened, then pushes new ones until the job finishes
+  app.get("/api/jobs/:id/events", requireAuth, (req, res) => {
+    const job = jobs.get(req.user!.id, req.params.id);
+    
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    
+    const send = (event: JobEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    
+    job.events.forEach(send);
+    if (job.status === "done" || job.status === "failed") {
+      return res.end();
+    }
+    
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+    
+    const unsubscribe = jobs.subscribe(job.id, (event) => {
+      send(event);
+      if (event.type === "done" || event.type === "failed") {
+        cleanup();
+        res.end();
+      }
+    });
+    
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    
+    req.on("close", cleanup);
+  });
+
   // API route for generating summaries from transcripts
-  app.post("/api/summarize", async (req, res) => {
+  app.post("/api/summarize", requireAuth, async (req, res) => {
     try {
       // Validate request body
       const requestSchema = z.object({
-        text: z.string().min(1, "Transcript text is required")
+        // Only needed for transcripts that weren't saved
+        text: z.string().min(1, "Transcript text is required").optional(),
+        // When given, the saved transcript is summarized and the summary saved against it
+        transcriptId: z.number().int().positive().optional(),
+        template: z.enum(summaryTemplateIds).default("general"),
+        // One of the user's own templates, used instead of `template`
+        customTemplateId: z.number().int().positive().optional()
+      }).refine((body) => body.text !== undefined || body.transcriptId !== undefined, {
+        message: "Transcript text or transcriptId is required",
+        path: ["text"],
       });
       
-      const { text } = requestSchema.parse(req.body);
+      const { transcriptId, template, customTemplateId, ...body } = requestSchema.parse(req.body);
+      
+      const transcript = transcriptId !== undefined ? await storage.getTranscript(req.user!.id, transcriptId) : undefined;
+      if (transcriptId !== undefined && !transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      const text = transcript?.text ?? body.text!;
+      
+      const customTemplate = customTemplateId !== undefined
+        ? await storage.getCustomSummaryTemplate(req.user!.id, customTemplateId)
+        : undefined;
+      if (customTemplateId !== undefined && !customTemplate) {
+        return res.status(404).json({ message: "Summary template not found" });
+      }
+      
+      const spec = customTemplate ?? template;
+      
+      // Clients that accept an event stream see the summary as it is written
+      if (req.accepts(["application/json", "text/event-stream"]) === "text/event-stream") {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+        
+        const send = (event: SummaryStreamEvent) => {
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        };
+        
+        // Closing the stream before it ends cancels the summary and the request to the provider
+        const controller = new AbortController();
+        res.on("close", () => {
+          if (!res.writableEnded) controller.abort();
+        });
+        
+        // Comment lines keep proxies from closing the connection while parts are summarized
+        const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+        
+        // Answer text already sent; a retry starts the text over
+        let sentText = "";
+        
+        try {
+          const summary = templatedSummarySchema.parse(
+            await generateSummary(text, transcript?.segments, spec, {
+              signal: controller.signal,
+              onStart: (chunkCount) =>
+                send(
+                  customTemplate
+                    ? {
+                        type: "start",
+                        template: "custom",
+                        chunkCount,
+                        custom: { templateId: customTemplate.id, name: customTemplate.name, fields: customTemplate.fields },
+                      }
+                    : { type: "start", template, chunkCount },
+                ),
+              onPartSummarized: (completed, total) => send({ type: "progress", completed, total }),
+              onText: (answer) => {
+                if (!answer.startsWith(sentText)) {
+                  send({ type: "text", text: answer, reset: true });
+                } else if (answer.length > sentText.length) {
+                  send({ type: "text", text: answer.slice(sentText.length) });
+                }
+                sentText = answer;
+              },
+            }),
+          );
+          
+          if (transcriptId !== undefined) {
+            await storage.saveSummary(toSummaryRecord(summary, transcriptId));
+          }
+          send({ type: "done", summary });
+        } catch (error: any) {
+          // Nobody is listening to a cancelled stream
+          if (!(error instanceof CancelledError)) {
+            console.error("Summary generation error:", error);
+            send({
+              type: "error",
+              message: error.message || "Failed to generate summary",
+              code: error instanceof UpstreamError ? error.code : undefined,
+              retryAfter: error instanceof UpstreamError ? error.retryAfter : undefined,
+            });
+          }
+        } finally {
+          clearInterval(heartbeat);
+        }
+        
+        return res.end();
+      }
+      
+      // Generate the summary, with speaker labels when the saved transcript has them
+      const summary = await generateSummary(text, transcript?.segments, spec);
       
-      // Generate the summary
-      const summary = await generateSummary(text);
+      // Validate the response against the template's schema
+      const validatedSummary = templatedSummarySchema.parse(summary);
       
-      // Validate the response
-      const validatedSummary = summarySchema.parse(summary);
+      if (transcriptId !== undefined) {
+        await storage.saveSummary(toSummaryRecord(validatedSummary, transcriptId));
+      }
       
       // Return the summary
       return res.status(200).json(validatedSummary);
     } catch (error: any) {
       console.error("Summary generation error:", error);
       
-      // Handle specific OpenAI API errors
-      if (error.response && error.response.status) {
-        const status = error.response.status;
-        const message = error.response.data?.error?.message || "OpenAI API error";
-        return res.status(status).json({ message });
+      if (error instanceof UpstreamError) {
+        return sendUpstreamError(res, error);
       }
       
       // Handle Zod validation errors
@@ -206,7 +522,392 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API routes for saved transcripts
+  app.get("/api/transcripts", requireAuth, async (req, res) => {
+    try {
+      const query = listTranscriptsQuerySchema.parse(req.query);
+      const page = await storage.listTranscripts(req.user!.id, query);
+      return res.status(200).json(page);
+    } catch (error: any) {
+      console.error("Error listing transcripts:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to list transcripts" });
+    }
+  });
+
+  // Download several transcripts as a ZIP of text files, e.g. /api/transcripts/archive?ids=1,2,3
+  // Registered before /api/transcripts/:id so "archive" isn't taken for an id
+  app.get("/api/transcripts/archive", requireAuth, async (req, res) => {
+    try {
+      const { ids } = archiveQuerySchema.parse(req.query);
+      const entries: ZipEntry[] = [];
+      const usedNames = new Set<string>();
+      
+      for (const id of Array.from(new Set(ids))) {
+        const transcript = await storage.getTranscript(req.user!.id, id);
+        if (!transcript) {
+          return res.status(404).json({ message: `Transcript ${id} not found` });
+        }
+        
+        // Two uploads of interview.mp3 become interview.txt and interview-2.txt
+        const baseName = downloadBaseName(transcript.title);
+        let name = `${baseName}.txt`;
+        for (let n = 2; usedNames.has(name); n++) {
+          name = `${baseName}-${n}.txt`;
+        }
+        usedNames.add(name);
+        entries.push({ name, data: speakerLabelledText(transcript.text, transcript.segments) });
+      }
+      
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", 'attachment; filename="transcripts.zip"');
+      return res.status(200).send(createZip(entries));
+    } catch (error: any) {
+      console.error("Error archiving transcripts:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to archive transcripts" });
+    }
+  });
+
+  app.get("/api/transcripts/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const transcript = id && await storage.getTranscript(req.user!.id, id);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      const summary = await storage.getSummary(transcript.id);
+      const body: TranscriptWithSummary = { ...transcript, summary: summary ?? null };
+      return res.status(200).json(body);
+    } catch (error: any) {
+      console.error("Error fetching transcript:", error);
+      return res.status(500).json({ message: error.message || "Failed to fetch transcript" });
+    }
+  });
+
+  // Download a saved transcript as subtitles, e.g. /api/transcripts/1/export?format=srt&maxLineLength=32
+  app.get("/api/transcripts/:id/export", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const { format, ...options } = exportQuerySchema.parse(req.query);
+      const transcript = id && await storage.getTranscript(req.user!.id, id);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      // Transcripts saved before timings were recorded become a single segment
+      let segments = transcript.segments ?? [];
+      if (segments.length === 0 && transcript.duration) {
+        segments = [{ start: 0, end: transcript.duration, text: transcript.text }];
+      }
+      if (segments.length === 0) {
+        return res.status(422).json({ message: "This transcript has no timing information to build subtitles from" });
+      }
+      
+      const body = formatSubtitles(format, segments, transcript.words ?? [], options);
+      const baseName = downloadBaseName(transcript.title);
+      
+      res.setHeader("Content-Type", `${subtitleMimeTypes[format]}; charset=utf-8`);
+      res.setHeader("Content-Disposition", `attachment; filename="${baseName}.${format}"`);
+      return res.status(200).send(body);
+    } catch (error: any) {
+      console.error("Error exporting transcript:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to export transcript" });
+    }
+  });
+
+  app.patch("/api/transcripts/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const updates = updateTranscriptSchema.parse(req.body);
+      const transcript = id && await storage.updateTranscript(req.user!.id, id, updates);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      return res.status(200).json(transcript);
+    } catch (error: any) {
+      console.error("Error updating transcript:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to update transcript" });
+    }
+  });
+
+  // Rename a speaker everywhere in the transcript, e.g. "Speaker 1" to "Priya"
+  app.patch("/api/transcripts/:id/speakers", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const { from, to } = renameSpeakerSchema.parse(req.body);
+      const transcript = id && await storage.renameSpeaker(req.user!.id, id, from, to);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      return res.status(200).json(transcript);
+    } catch (error: any) {
+      console.error("Error renaming speaker:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to rename speaker" });
+    }
+  });
+
+  // Questions asked about a transcript, kept as a conversation
+  app.get("/api/transcripts/:id/questions", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const transcript = id && await storage.getTranscript(req.user!.id, id);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      const questions = await storage.listTranscriptQuestions(transcript.id);
+      return res.status(200).json(questions);
+    } catch (error: any) {
+      console.error("Error fetching questions:", error);
+      return res.status(500).json({ message: error.message || "Failed to fetch questions" });
+    }
+  });
+
+  // Answer a question from the most relevant parts of the transcript, citing their timestamps
+  app.post("/api/transcripts/:id/ask", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const { question } = askQuestionSchema.parse(req.body);
+      const transcript = id && await storage.getTranscript(req.user!.id, id);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      const history = await storage.listTranscriptQuestions(transcript.id);
+      const { answer, citations } = await answerQuestion(question, transcript, history);
+      
+      const saved = await storage.saveTranscriptQuestion({
+        transcriptId: transcript.id,
+        question,
+        answer,
+        citations,
+      });
+      return res.status(201).json(saved);
+    } catch (error: any) {
+      console.error("Error answering question:", error);
+      
+      if (error instanceof UpstreamError) {
+        return sendUpstreamError(res, error);
+      }
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to answer question" });
+    }
+  });
+
+  app.delete("/api/transcripts/:id/questions", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const transcript = id && await storage.getTranscript(req.user!.id, id);
+      
+      if (!transcript) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      await storage.clearTranscriptQuestions(transcript.id);
+      return res.status(204).end();
+    } catch (error: any) {
+      console.error("Error clearing questions:", error);
+      return res.status(500).json({ message: error.message || "Failed to clear questions" });
+    }
+  });
+
+  app.delete("/api/transcripts/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const deleted = id && await storage.deleteTranscript(req.user!.id, id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Transcript not found" });
+      }
+      
+      return res.status(204).end();
+    } catch (error: any) {
+      console.error("Error deleting transcript:", error);
+      return res.status(500).json({ message: error.message || "Failed to delete transcript" });
+    }
+  });
+
+  // Glossary of terms the transcriber should spell correctly
+  app.get("/api/glossary", requireAuth, async (req, res) => {
+    try {
+      const terms = await storage.listGlossaryTerms(req.user!.id);
+      return res.status(200).json(terms);
+    } catch (error: any) {
+      console.error("Error fetching glossary:", error);
+      return res.status(500).json({ message: error.message || "Failed to fetch glossary" });
+    }
+  });
+
+  app.post("/api/glossary", requireAuth, async (req, res) => {
+    try {
+      const term = insertGlossaryTermSchema.parse(req.body);
+      const created = await storage.createGlossaryTerm(req.user!.id, term);
+      return res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Error creating glossary term:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to create glossary term" });
+    }
+  });
+
+  app.patch("/api/glossary/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const updates = updateGlossaryTermSchema.parse(req.body);
+      const term = id && await storage.updateGlossaryTerm(req.user!.id, id, updates);
+      
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      
+      return res.status(200).json(term);
+    } catch (error: any) {
+      console.error("Error updating glossary term:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to update glossary term" });
+    }
+  });
+
+  app.delete("/api/glossary/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const deleted = id && await storage.deleteGlossaryTerm(req.user!.id, id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      
+      return res.status(204).end();
+    } catch (error: any) {
+      console.error("Error deleting glossary term:", error);
+      return res.status(500).json({ message: error.message || "Failed to delete glossary term" });
+    }
+  });
+
+  // Summary templates written by the user, alongside the built-in ones
+  app.get("/api/summary-templates", requireAuth, async (req, res) => {
+    try {
+      const templates = await storage.listCustomSummaryTemplates(req.user!.id);
+      return res.status(200).json(templates);
+    } catch (error: any) {
+      console.error("Error fetching summary templates:", error);
+      return res.status(500).json({ message: error.message || "Failed to fetch summary templates" });
+    }
+  });
+
+  app.post("/api/summary-templates", requireAuth, async (req, res) => {
+    try {
+      const template = insertCustomSummaryTemplateSchema.parse(req.body);
+      const created = await storage.createCustomSummaryTemplate(req.user!.id, template);
+      return res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Error creating summary template:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to create summary template" });
+    }
+  });
+
+  app.patch("/api/summary-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const updates = updateCustomSummaryTemplateSchema.parse(req.body);
+      const template = id && await storage.updateCustomSummaryTemplate(req.user!.id, id, updates);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Summary template not found" });
+      }
+      
+      return res.status(200).json(template);
+    } catch (error: any) {
+      console.error("Error updating summary template:", error);
+      
+      // Handle Zod validation errors
+      if (error.errors) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: error.message || "Failed to update summary template" });
+    }
+  });
+
+  app.delete("/api/summary-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseId(req.params.id);
+      const deleted = id && await storage.deleteCustomSummaryTemplate(req.user!.id, id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Summary template not found" });
+      }
+      
+      return res.status(204).end();
+    } catch (error: any) {
+      console.error("Error deleting summary template:", error);
+      return res.status(500).json({ message: error.message || "Failed to delete summary template" });
+    }
+  });
+
   const httpServer = createServer(app);
 
+  // Live transcription over WebSocket, sharing the session cookie with the API
+  setupLiveTranscription(httpServer, authenticateUpgrade);
+
   return httpServer;
 }
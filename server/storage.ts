@@ -1,4 +1,34 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  transcripts,
+  summaries,
+  glossaryTerms,
+  customSummaryTemplates,
+  transcriptQuestions,
+  type User,
+  type InsertUser,
+  type Transcript,
+  type InsertTranscript,
+  type UpdateTranscript,
+  type SummaryRecord,
+  type InsertSummaryRecord,
+  type ListTranscriptsQuery,
+  type TranscriptPage,
+  type GlossaryTerm,
+  type InsertGlossaryTerm,
+  type UpdateGlossaryTerm,
+  type CustomSummaryTemplate,
+  type InsertCustomSummaryTemplate,
+  type UpdateCustomSummaryTemplate,
+  type TranscriptQuestion,
+  type InsertTranscriptQuestion,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, getTableColumns, ilike, or, sql } from "drizzle-orm";
+import { db, type Database } from "./db";
+
+function renameInSegments(segments: Transcript["segments"], from: string, to: string): Transcript["segments"] {
+  return segments?.map((segment) => (segment.speaker === from ? { ...segment, speaker: to } : segment)) ?? null;
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +37,70 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Transcripts are scoped to their owner and listed newest first
+  listTranscripts(userId: number, query: ListTranscriptsQuery): Promise<TranscriptPage>;
+  getTranscript(userId: number, id: number): Promise<Transcript | undefined>;
+  createTranscript(transcript: InsertTranscript): Promise<Transcript>;
+  updateTranscript(userId: number, id: number, updates: UpdateTranscript): Promise<Transcript | undefined>;
+  // Relabels every segment spoken by `from`; renaming onto an existing speaker merges the two
+  renameSpeaker(userId: number, id: number, from: string, to: string): Promise<Transcript | undefined>;
+  // Also removes the transcript's summary and questions
+  deleteTranscript(userId: number, id: number): Promise<boolean>;
+
+  getSummary(transcriptId: number): Promise<SummaryRecord | undefined>;
+  // Replaces any existing summary for the transcript
+  saveSummary(summary: InsertSummaryRecord): Promise<SummaryRecord>;
+
+  // Questions asked about a transcript, oldest first
+  listTranscriptQuestions(transcriptId: number): Promise<TranscriptQuestion[]>;
+  saveTranscriptQuestion(question: InsertTranscriptQuestion): Promise<TranscriptQuestion>;
+  clearTranscriptQuestions(transcriptId: number): Promise<void>;
+
+  // Glossary terms are scoped to their owner and listed alphabetically
+  listGlossaryTerms(userId: number): Promise<GlossaryTerm[]>;
+  createGlossaryTerm(userId: number, term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  updateGlossaryTerm(userId: number, id: number, updates: UpdateGlossaryTerm): Promise<GlossaryTerm | undefined>;
+  deleteGlossaryTerm(userId: number, id: number): Promise<boolean>;
+  // Custom summary templates are scoped to their owner and listed by name
+  listCustomSummaryTemplates(userId: number): Promise<CustomSummaryTemplate[]>;
+  getCustomSummaryTemplate(userId: number, id: number): Promise<CustomSummaryTemplate | undefined>;
+  createCustomSummaryTemplate(userId: number, template: InsertCustomSummaryTemplate): Promise<CustomSummaryTemplate>;
+  updateCustomSummaryTemplate(
+    userId: number,
+    id: number,
+    updates: UpdateCustomSummaryTemplate
+  ): Promise<CustomSummaryTemplate | undefined>;
+  deleteCustomSummaryTemplate(userId: number, id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private transcripts: Map<number, Transcript>;
+  private summaries: Map<number, SummaryRecord>;
+  private glossaryTerms: Map<number, GlossaryTerm>;
+  private customSummaryTemplates: Map<number, CustomSummaryTemplate>;
+  private transcriptQuestions: Map<number, TranscriptQuestion>;
   currentId: number;
+  currentTranscriptId: number;
+  currentSummaryId: number;
+  currentGlossaryTermId: number;
+  currentCustomSummaryTemplateId: number;
+  currentTranscriptQuestionId: number;
 
   constructor() {
     this.users = new Map();
+    this.transcripts = new Map();
+    this.summaries = new Map();
+    this.glossaryTerms = new Map();
+    this.customSummaryTemplates = new Map();
+    this.transcriptQuestions = new Map();
     this.currentId = 1;
+    this.currentTranscriptId = 1;
+    this.currentSummaryId = 1;
+    this.currentGlossaryTermId = 1;
+    this.currentCustomSummaryTemplateId = 1;
+    this.currentTranscriptQuestionId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +119,421 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listTranscripts(userId: number, { search, page, pageSize }: ListTranscriptsQuery): Promise<TranscriptPage> {
+    const needle = search?.toLowerCase();
+    const matches = Array.from(this.transcripts.values())
+      .filter((transcript) => transcript.userId === userId)
+      .filter((transcript) =>
+        !needle ||
+        transcript.filename.toLowerCase().includes(needle) ||
+        transcript.title.toLowerCase().includes(needle) ||
+        transcript.text.toLowerCase().includes(needle),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+
+    const items = matches
+      .slice((page - 1) * pageSize, page * pageSize)
+      .map(({ text, segments, words, ...transcript }) => ({
+        ...transcript,
+        hasSummary: this.summaries.has(transcript.id),
+      }));
+
+    return { items, total: matches.length, page, pageSize };
+  }
+
+  async getTranscript(userId: number, id: number): Promise<Transcript | undefined> {
+    const transcript = this.transcripts.get(id);
+    return transcript?.userId === userId ? transcript : undefined;
+  }
+
+  async createTranscript(insertTranscript: InsertTranscript): Promise<Transcript> {
+    const id = this.currentTranscriptId++;
+    const now = new Date();
+    const transcript: Transcript = {
+      duration: null,
+      language: null,
+      mode: "transcribe",
+      segments: null,
+      words: null,
+      wasCompressed: false,
+      chunkCount: 1,
+      media: null,
+      ...insertTranscript,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.transcripts.set(id, transcript);
+    return transcript;
+  }
+
+  async updateTranscript(userId: number, id: number, updates: UpdateTranscript): Promise<Transcript | undefined> {
+    const existing = await this.getTranscript(userId, id);
+    if (!existing) return undefined;
+
+    const transcript: Transcript = { ...existing, ...updates, updatedAt: new Date() };
+    this.transcripts.set(id, transcript);
+    return transcript;
+  }
+
+  async renameSpeaker(userId: number, id: number, from: string, to: string): Promise<Transcript | undefined> {
+    const existing = await this.getTranscript(userId, id);
+    if (!existing) return undefined;
+
+    const transcript: Transcript = {
+      ...existing,
+      segments: renameInSegments(existing.segments, from, to),
+      updatedAt: new Date(),
+    };
+    this.transcripts.set(id, transcript);
+    return transcript;
+  }
+
+  async deleteTranscript(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getTranscript(userId, id))) return false;
+    this.summaries.delete(id);
+    await this.clearTranscriptQuestions(id);
+    return this.transcripts.delete(id);
+  }
+
+  async getSummary(transcriptId: number): Promise<SummaryRecord | undefined> {
+    return this.summaries.get(transcriptId);
+  }
+
+  async saveSummary(insertSummary: InsertSummaryRecord): Promise<SummaryRecord> {
+    const summary: SummaryRecord = {
+      ...insertSummary,
+      actionItems: insertSummary.actionItems ?? null,
+      chunkCount: insertSummary.chunkCount ?? 1,
+      template: insertSummary.template ?? "general",
+      content: insertSummary.content ?? null,
+      id: this.currentSummaryId++,
+      createdAt: new Date(),
+    };
+    // Keyed by transcript so there is at most one summary per transcript
+    this.summaries.set(summary.transcriptId, summary);
+    return summary;
+  }
+
+  async listTranscriptQuestions(transcriptId: number): Promise<TranscriptQuestion[]> {
+    return Array.from(this.transcriptQuestions.values())
+      .filter((question) => question.transcriptId === transcriptId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async saveTranscriptQuestion(insertQuestion: InsertTranscriptQuestion): Promise<TranscriptQuestion> {
+    const question: TranscriptQuestion = {
+      ...insertQuestion,
+      id: this.currentTranscriptQuestionId++,
+      createdAt: new Date(),
+    };
+    this.transcriptQuestions.set(question.id, question);
+    return question;
+  }
+
+  async clearTranscriptQuestions(transcriptId: number): Promise<void> {
+    for (const question of Array.from(this.transcriptQuestions.values())) {
+      if (question.transcriptId === transcriptId) {
+        this.transcriptQuestions.delete(question.id);
+      }
+    }
+  }
+
+  async listGlossaryTerms(userId: number): Promise<GlossaryTerm[]> {
+    return Array.from(this.glossaryTerms.values())
+      .filter((term) => term.userId === userId)
+      .sort((a, b) => a.term.localeCompare(b.term) || a.id - b.id);
+  }
+
+  async createGlossaryTerm(userId: number, insertTerm: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const term: GlossaryTerm = {
+      caseSensitive: false,
+      ...insertTerm,
+      id: this.currentGlossaryTermId++,
+      userId,
+      createdAt: new Date(),
+    };
+    this.glossaryTerms.set(term.id, term);
+    return term;
+  }
+
+  async updateGlossaryTerm(userId: number, id: number, updates: UpdateGlossaryTerm): Promise<GlossaryTerm | undefined> {
+    const existing = this.glossaryTerms.get(id);
+    if (existing?.userId !== userId) return undefined;
+
+    const term: GlossaryTerm = { ...existing, ...updates };
+    this.glossaryTerms.set(id, term);
+    return term;
+  }
+
+  async deleteGlossaryTerm(userId: number, id: number): Promise<boolean> {
+    if (this.glossaryTerms.get(id)?.userId !== userId) return false;
+    return this.glossaryTerms.delete(id);
+  }
+
+  async listCustomSummaryTemplates(userId: number): Promise<CustomSummaryTemplate[]> {
+    return Array.from(this.customSummaryTemplates.values())
+      .filter((template) => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getCustomSummaryTemplate(userId: number, id: number): Promise<CustomSummaryTemplate | undefined> {
+    const template = this.customSummaryTemplates.get(id);
+    return template?.userId === userId ? template : undefined;
+  }
+
+  async createCustomSummaryTemplate(
+    userId: number,
+    insertTemplate: InsertCustomSummaryTemplate
+  ): Promise<CustomSummaryTemplate> {
+    const template: CustomSummaryTemplate = {
+      ...insertTemplate,
+      id: this.currentCustomSummaryTemplateId++,
+      userId,
+      createdAt: new Date(),
+    };
+    this.customSummaryTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateCustomSummaryTemplate(
+    userId: number,
+    id: number,
+    updates: UpdateCustomSummaryTemplate
+  ): Promise<CustomSummaryTemplate | undefined> {
+    const existing = await this.getCustomSummaryTemplate(userId, id);
+    if (!existing) return undefined;
+
+    const template: CustomSummaryTemplate = { ...existing, ...updates };
+    this.customSummaryTemplates.set(id, template);
+    return template;
+  }
+
+  async deleteCustomSummaryTemplate(userId: number, id: number): Promise<boolean> {
+    if (this.customSummaryTemplates.get(id)?.userId !== userId) return false;
+    return this.customSummaryTemplates.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listTranscripts(userId: number, { search, page, pageSize }: ListTranscriptsQuery): Promise<TranscriptPage> {
+    const pattern = search ? `%${search.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const where = and(
+      eq(transcripts.userId, userId),
+      pattern
+        ? or(
+            ilike(transcripts.filename, pattern),
+            ilike(transcripts.title, pattern),
+            ilike(transcripts.text, pattern),
+          )
+        : undefined,
+    );
+
+    const { text, segments, words, ...listColumns } = getTableColumns(transcripts);
+    const items = await this.db
+      .select({
+        ...listColumns,
+        hasSummary: sql<boolean>`${summaries.id} is not null`,
+      })
+      .from(transcripts)
+      .leftJoin(summaries, eq(summaries.transcriptId, transcripts.id))
+      .where(where)
+      .orderBy(desc(transcripts.createdAt), desc(transcripts.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    const [{ total }] = await this.db.select({ total: count() }).from(transcripts).where(where);
+
+    return { items, total, page, pageSize };
+  }
+
+  async getTranscript(userId: number, id: number): Promise<Transcript | undefined> {
+    const [transcript] = await this.db
+      .select()
+      .from(transcripts)
+      .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)));
+    return transcript;
+  }
+
+  async createTranscript(insertTranscript: InsertTranscript): Promise<Transcript> {
+    const [transcript] = await this.db.insert(transcripts).values(insertTranscript).returning();
+    return transcript;
+  }
+
+  async updateTranscript(userId: number, id: number, updates: UpdateTranscript): Promise<Transcript | undefined> {
+    const [transcript] = await this.db
+      .update(transcripts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)))
+      .returning();
+    return transcript;
+  }
+
+  async renameSpeaker(userId: number, id: number, from: string, to: string): Promise<Transcript | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ segments: transcripts.segments })
+        .from(transcripts)
+        .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)))
+        .for("update");
+      if (!existing) return undefined;
+
+      const [transcript] = await tx
+        .update(transcripts)
+        .set({ segments: renameInSegments(existing.segments, from, to), updatedAt: new Date() })
+        .where(eq(transcripts.id, id))
+        .returning();
+      return transcript;
+    });
+  }
+
+  async deleteTranscript(userId: number, id: number): Promise<boolean> {
+    // The summary and questions go with it through ON DELETE CASCADE foreign keys
+    const deleted = await this.db
+      .delete(transcripts)
+      .where(and(eq(transcripts.id, id), eq(transcripts.userId, userId)))
+      .returning({ id: transcripts.id });
+    return deleted.length > 0;
+  }
+
+  async getSummary(transcriptId: number): Promise<SummaryRecord | undefined> {
+    const [summary] = await this.db.select().from(summaries).where(eq(summaries.transcriptId, transcriptId));
+    return summary;
+  }
+
+  async saveSummary(insertSummary: InsertSummaryRecord): Promise<SummaryRecord> {
+    // Every column is set, so a regenerated summary doesn't keep fields from the old one
+    const values = {
+      ...insertSummary,
+      actionItems: insertSummary.actionItems ?? null,
+      chunkCount: insertSummary.chunkCount ?? 1,
+      template: insertSummary.template ?? "general",
+      content: insertSummary.content ?? null,
+    };
+    const [summary] = await this.db
+      .insert(summaries)
+      .values(values)
+      .onConflictDoUpdate({
+        target: summaries.transcriptId,
+        set: { ...values, createdAt: new Date() },
+      })
+      .returning();
+    return summary;
+  }
+
+  async listTranscriptQuestions(transcriptId: number): Promise<TranscriptQuestion[]> {
+    return this.db
+      .select()
+      .from(transcriptQuestions)
+      .where(eq(transcriptQuestions.transcriptId, transcriptId))
+      .orderBy(asc(transcriptQuestions.id));
+  }
+
+  async saveTranscriptQuestion(insertQuestion: InsertTranscriptQuestion): Promise<TranscriptQuestion> {
+    const [question] = await this.db.insert(transcriptQuestions).values(insertQuestion).returning();
+    return question;
+  }
+
+  async clearTranscriptQuestions(transcriptId: number): Promise<void> {
+    await this.db.delete(transcriptQuestions).where(eq(transcriptQuestions.transcriptId, transcriptId));
+  }
+
+  async listGlossaryTerms(userId: number): Promise<GlossaryTerm[]> {
+    return this.db
+      .select()
+      .from(glossaryTerms)
+      .where(eq(glossaryTerms.userId, userId))
+      .orderBy(asc(glossaryTerms.term), asc(glossaryTerms.id));
+  }
+
+  async createGlossaryTerm(userId: number, insertTerm: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const [term] = await this.db.insert(glossaryTerms).values({ ...insertTerm, userId }).returning();
+    return term;
+  }
+
+  async updateGlossaryTerm(userId: number, id: number, updates: UpdateGlossaryTerm): Promise<GlossaryTerm | undefined> {
+    const [term] = await this.db
+      .update(glossaryTerms)
+      .set(updates)
+      .where(and(eq(glossaryTerms.id, id), eq(glossaryTerms.userId, userId)))
+      .returning();
+    return term;
+  }
+
+  async deleteGlossaryTerm(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(glossaryTerms)
+      .where(and(eq(glossaryTerms.id, id), eq(glossaryTerms.userId, userId)))
+      .returning({ id: glossaryTerms.id });
+    return deleted.length > 0;
+  }
+
+  async listCustomSummaryTemplates(userId: number): Promise<CustomSummaryTemplate[]> {
+    return this.db
+      .select()
+      .from(customSummaryTemplates)
+      .where(eq(customSummaryTemplates.userId, userId))
+      .orderBy(asc(customSummaryTemplates.name), asc(customSummaryTemplates.id));
+  }
+
+  async getCustomSummaryTemplate(userId: number, id: number): Promise<CustomSummaryTemplate | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(customSummaryTemplates)
+      .where(and(eq(customSummaryTemplates.id, id), eq(customSummaryTemplates.userId, userId)));
+    return template;
+  }
+
+  async createCustomSummaryTemplate(
+    userId: number,
+    insertTemplate: InsertCustomSummaryTemplate
+  ): Promise<CustomSummaryTemplate> {
+    const [template] = await this.db
+      .insert(customSummaryTemplates)
+      .values({ ...insertTemplate, userId })
+      .returning();
+    return template;
+  }
+
+  async updateCustomSummaryTemplate(
+    userId: number,
+    id: number,
+    updates: UpdateCustomSummaryTemplate
+  ): Promise<CustomSummaryTemplate | undefined> {
+    const [template] = await this.db
+      .update(customSummaryTemplates)
+      .set(updates)
+      .where(and(eq(customSummaryTemplates.id, id), eq(customSummaryTemplates.userId, userId)))
+      .returning();
+    return template;
+  }
+
+  async deleteCustomSummaryTemplate(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(customSummaryTemplates)
+      .where(and(eq(customSummaryTemplates.id, id), eq(customSummaryTemplates.userId, userId)))
+      .returning({ id: customSummaryTemplates.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is configured, otherwise keep everything in memory
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -0,0 +1,63 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { generateSummary, splitTranscript } from "./summary";
+import { setProviders } from "./providers";
+import { LocalSummaryProvider } from "./providers/localSummary";
+import { CancelledError } from "./resilience";
+
+const segments = [
+  { start: 0, end: 4, text: "Welcome everyone, let's review the launch.", speaker: "Priya" },
+  { start: 4, end: 8, text: "We agreed to ship the mobile app in March.", speaker: "Priya" },
+  { start: 8, end: 12, text: "Sam will update the budget by Friday.", speaker: "Sam" },
+];
+const text = segments.map((segment) => segment.text).join(" ");
+
+before(() => setProviders({ summary: new LocalSummaryProvider() }));
+after(() => setProviders({ summary: null }));
+
+test("splitTranscript keeps speaker labels in every part", () => {
+  const parts = splitTranscript(text, segments, 15);
+
+  assert.ok(parts.length > 1);
+  for (const part of parts) {
+    assert.match(part, /^(Priya|Sam): /);
+  }
+});
+
+test("splitTranscript keeps a short transcript in one part", () => {
+  assert.deepEqual(splitTranscript(text, segments), [
+    "Priya: Welcome everyone, let's review the launch. We agreed to ship the mobile app in March.\n\nSam: Sam will update the budget by Friday.",
+  ]);
+});
+
+test("generateSummary returns the template's fields", async () => {
+  const summary = await generateSummary(text, segments, "meeting");
+
+  assert.equal(summary.template, "meeting");
+  assert.equal(summary.chunkCount, 1);
+  if (summary.template !== "meeting") return;
+  assert.deepEqual(summary.attendees, ["Priya", "Sam"]);
+  assert.ok(summary.decisions.some((decision) => decision.includes("mobile app")));
+  assert.ok(summary.actionItems.some((item) => item.owner === "Sam"));
+});
+
+test("generateSummary summarizes long transcripts in parts and merges them", async () => {
+  // Well over the default budget of 12000 tokens
+  const long = Array.from({ length: 1500 }, (_, i) => `Point number ${i} is about the quarterly roadmap.`).join(" ");
+  const progress: number[] = [];
+
+  const summary = await generateSummary(long, null, "general", {
+    onPartSummarized: (completed) => progress.push(completed),
+  });
+
+  assert.ok(summary.chunkCount > 1);
+  assert.equal(progress.length, summary.chunkCount);
+  assert.equal(summary.template, "general");
+});
+
+test("generateSummary stops when cancelled", async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(generateSummary(text, segments, "general", { signal: controller.signal }), CancelledError);
+});
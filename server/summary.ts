@@ -1,64 +1,210 @@
-import OpenAI from "openai";
+import type { TranscriptSegment } from "@shared/schema";
+import { speakerLabelledText } from "@shared/speakers";
+import { templatedSummarySchema, type TemplatedSummary } from "@shared/summaryTemplates";
+import { contentSchemaFor, type SummaryTemplateSpec } from "./customTemplates";
+import { getSummaryProvider, type SummaryCallOptions, type SummaryOutput, type SummaryProvider } from "./providers";
+import { CancelledError, UpstreamError } from "./resilience";
 
-// Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Rough size of a token in English text; close enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+// Largest part of a transcript sent in one summary request, in tokens. GPT-4o
+// accepts far more, but summaries of very long inputs gloss over the middle.
+const SUMMARY_CHUNK_TOKENS = parseInt(process.env.SUMMARY_CHUNK_TOKENS || "12000", 10) || 12000;
+
+// Part summaries requested at the same time
+const SUMMARY_CONCURRENCY = parseInt(process.env.SUMMARY_CONCURRENCY || "3", 10) || 3;
+
+// Lets the caller follow a summary while it is generated, and stop it
+export interface SummaryProgress extends SummaryCallOptions {
+  // Called once the transcript is split, with the number of parts
+  onStart?: (chunkCount: number) => void;
+  // Called as each part of a long transcript is summarized
+  onPartSummarized?: (completed: number, total: number) => void;
+}
+
+// A piece of the transcript that is kept whole when possible
+interface SpokenText {
+  text: string;
+  speaker?: string;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Tokens a unit takes up in a part, counting its speaker label
+function unitTokens(unit: SpokenText): number {
+  return estimateTokens(unit.text) + (unit.speaker ? estimateTokens(`${unit.speaker}: `) : 0) + 1;
+}
+
+// Break a unit that is over budget by itself at word boundaries
+function splitUnit(unit: SpokenText, maxTokens: number): SpokenText[] {
+  if (unitTokens(unit) <= maxTokens) return [unit];
+
+  const pieces: SpokenText[] = [];
+  let words: string[] = [];
+  for (const word of unit.text.split(/\s+/)) {
+    if (words.length > 0 && unitTokens({ ...unit, text: [...words, word].join(" ") }) > maxTokens) {
+      pieces.push({ ...unit, text: words.join(" ") });
+      words = [];
+    }
+    words.push(word);
+  }
+  pieces.push({ ...unit, text: words.join(" ") });
+  return pieces;
+}
+
+/**
+ * Split a transcript into parts that fit the token budget
+ * Parts break between segments when there are any, otherwise between
+ * sentences, and only inside one when it is too long by itself. Speaker
+ * labels are kept so every part says who is talking.
+ * @param transcriptText The full transcript text
+ * @param segments The transcript's segments, if it has them
+ * @param maxTokens Budget for each part
+ * @returns The text of each part, in order
+ */
+export function splitTranscript(
+  transcriptText: string,
+  segments?: TranscriptSegment[] | null,
+  maxTokens = SUMMARY_CHUNK_TOKENS
+): string[] {
+  const units: SpokenText[] = segments && segments.length > 0
+    ? segments.map(({ text, speaker }) => ({ text, speaker }))
+    : transcriptText
+        .split(/(?<=[.!?])\s+/)
+        .filter(Boolean)
+        .map((text) => ({ text }));
+
+  const parts: SpokenText[][] = [];
+  let current: SpokenText[] = [];
+  let tokens = 0;
+
+  for (const unit of units.flatMap((unit) => splitUnit(unit, maxTokens))) {
+    if (current.length > 0 && tokens + unitTokens(unit) > maxTokens) {
+      parts.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(unit);
+    tokens += unitTokens(unit);
+  }
+  if (current.length > 0) parts.push(current);
+
+  return parts.map((part) => speakerLabelledText(part.map((unit) => unit.text).join(" "), part));
+}
+
+// Run fn over the items, at most `limit` at a time, keeping their order
+async function mapInBatches<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...(await Promise.all(items.slice(i, i + limit).map(fn))));
+  }
+  return results;
+}
 
 /**
- * Generate a structured summary of the transcript using OpenAI's GPT model
+ * Merge part summaries into one
+ * When they are too large to merge in one request, neighbouring summaries are
+ * merged in groups that fit and the results merged again. Only the last
+ * merge, which writes the final summary, reports its text
+ */
+async function reduceSummaries(
+  provider: SummaryProvider,
+  partials: SummaryOutput[],
+  template: SummaryTemplateSpec,
+  { onText, signal }: SummaryCallOptions
+): Promise<SummaryOutput> {
+  let level = partials;
+
+  while (level.length > 1) {
+    const groups: SummaryOutput[][] = [];
+    let group: SummaryOutput[] = [];
+    let tokens = 0;
+
+    for (const partial of level) {
+      const partialTokens = estimateTokens(JSON.stringify(partial));
+      // At least two per group, so every round gets shorter
+      if (group.length >= 2 && tokens + partialTokens > SUMMARY_CHUNK_TOKENS) {
+        groups.push(group);
+        group = [];
+        tokens = 0;
+      }
+      group.push(partial);
+      tokens += partialTokens;
+    }
+    groups.push(group);
+
+    const options = groups.length === 1 ? { onText, signal } : { signal };
+    level = await mapInBatches(groups, SUMMARY_CONCURRENCY, (group) =>
+      group.length === 1 ? Promise.resolve(group[0]) : provider.merge(group, template, options),
+    );
+  }
+
+  return level[0];
+}
+
+/**
+ * Generate a structured summary of the transcript using the configured summary provider
+ * Transcripts over the token budget are split into parts, each part is
+ * summarized, and the part summaries are merged into one
  * @param transcriptText The full transcript text to summarize
- * @returns A structured summary with key points, topics, and action items
+ * @param segments The transcript's segments; when they name speakers the summary
+ * is written from "Speaker: " turns so it can say who said what
+ * @param template The built-in or custom summary template that decides the summary's fields
+ * @param progress Callbacks that follow the summary as it is written, and a signal that cancels it
+ * @returns A structured summary in the template's shape, tagged with the
+ * template and the number of parts it was built from
  */
-export async function generateSummary(transcriptText: string): Promise<{
-  keyPoints: string[];
-  topics: { topic: string; description: string }[];
-  actionItems?: string[];
-}> {
+export async function generateSummary(
+  transcriptText: string,
+  segments?: TranscriptSegment[] | null,
+  template: SummaryTemplateSpec = "general",
+  progress: SummaryProgress = {}
+): Promise<TemplatedSummary> {
+  const { onStart, onPartSummarized, onText, signal } = progress;
   try {
-    // Define the prompt for GPT-4o
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert summarizer. Extract key information from transcripts and organize them into a clear, structured format. Be concise but comprehensive. 
-          
-Your response should be formatted in JSON with the following structure:
-{
-  "keyPoints": ["point 1", "point 2", "point 3", "point 4", "point 5"],
-  "topics": [
-    { "topic": "Topic Name 1", "description": "Brief description of topic 1" },
-    { "topic": "Topic Name 2", "description": "Brief description of topic 2" }
-  ],
-  "actionItems": ["action 1", "action 2"] // optional, only if actions are mentioned
-}`
-        },
-        {
-          role: "user",
-          content: `Please analyze this transcript and provide a JSON summary with:
-1. keyPoints: Array of the 3-5 most important points
-2. topics: Array of 2-4 main topics with topic name and description
-3. actionItems: Optional array of action items or next steps if mentioned
-
-Here's the transcript:
-${transcriptText}`
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.5
-    });
+    const provider = getSummaryProvider();
+    const parts = splitTranscript(transcriptText, segments);
+    onStart?.(Math.max(1, parts.length));
 
-    // Parse the JSON response
-    const content = response.choices[0].message.content;
-    // TypeScript type guard to ensure content is a string
-    const summaryContent = content ? JSON.parse(content) : {};
-    
-    return {
-      keyPoints: summaryContent.keyPoints || [],
-      topics: summaryContent.topics || [],
-      actionItems: summaryContent.actionItems || []
-    };
+    let content: SummaryOutput;
+    if (parts.length <= 1) {
+      content = await provider.summarize(speakerLabelledText(transcriptText, segments), template, { onText, signal });
+    } else {
+      let completed = 0;
+      const partials = await mapInBatches(parts, SUMMARY_CONCURRENCY, async (part) => {
+        const partial = await provider.summarize(part, template, { signal });
+        onPartSummarized?.(++completed, parts.length);
+        return partial;
+      });
+      content = await reduceSummaries(provider, partials, template, { onText, signal });
+    }
+
+    // Providers should already return the template's shape; this catches those that don't
+    const values = contentSchemaFor(template).parse(content);
+    const chunkCount = Math.max(1, parts.length);
+
+    if (typeof template === "string") {
+      return templatedSummarySchema.parse({ ...values, template, chunkCount });
+    }
+    return templatedSummarySchema.parse({
+      template: "custom",
+      templateId: template.id,
+      name: template.name,
+      fields: template.fields,
+      values,
+      chunkCount,
+    });
   } catch (error: any) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
     console.error("Error generating summary:", error);
+    if (error instanceof UpstreamError) {
+      throw error;
+    }
     throw new Error(error.message || "Failed to generate summary");
   }
-}
\ No newline at end of file
+}
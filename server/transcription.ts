@@ -1,43 +1,34 @@
 import fs from "fs";
-import OpenAI from "openai";
+import { getTranscriptionProvider, type TranscriptionResult } from "./providers";
+import { UpstreamError } from "./resilience";
+import { defaultTranscriptionOptions, type TranscriptionOptions } from "@shared/schema";
 
-// Initialize the OpenAI client with API key from environment variables
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY,
-});
+export type { TranscriptionResult } from "./providers";
 
 /**
- * Transcribe an audio file using OpenAI's Whisper API
+ * Transcribe an audio file using the configured transcription provider
+ * The result carries segment and word timings when the provider reports them
  * @param audioFilePath Path to the audio file
- * @returns Transcription result with text and duration
+ * @param options Spoken language, if known, and whether to translate to English
+ * @returns Transcription result with text, duration, language, segments and words
  */
-export async function transcribeAudio(audioFilePath: string): Promise<{ text: string; duration: number }> {
+export async function transcribeAudio(
+  audioFilePath: string,
+  options: TranscriptionOptions = defaultTranscriptionOptions
+): Promise<TranscriptionResult> {
   try {
     if (!fs.existsSync(audioFilePath)) {
       throw new Error("Audio file not found");
     }
 
-    // Create a readable stream from the audio file
-    const audioReadStream = fs.createReadStream(audioFilePath);
-
-    // Call the OpenAI API to transcribe the audio
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioReadStream,
-      model: "whisper-1",
-    });
-
-    return {
-      text: transcription.text,
-      duration: transcription.duration || 0,
-    };
+    return await getTranscriptionProvider().transcribe(audioFilePath, options);
   } catch (error: any) {
     // Log the error for debugging
     console.error("Error transcribing audio:", error);
 
-    // Handle specific OpenAI API errors
-    if (error.response && error.response.data) {
-      const apiError = error.response.data;
-      throw new Error(apiError.error?.message || "OpenAI API error");
+    // Keep the error code so callers can tell rate limits from outages
+    if (error instanceof UpstreamError) {
+      throw error;
     }
 
     // Re-throw with a more descriptive message
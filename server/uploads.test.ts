@@ -0,0 +1,60 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { UploadError, UploadManager } from "./uploads";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "uploads-test-"));
+const uploads = new UploadManager(dir);
+const data = Buffer.from("not really a recording");
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function uploadAll(): Promise<string> {
+  const checksum = createHash("sha256").update(data).digest("hex");
+  const { id } = uploads.create(1, { filename: "talk.mp3", mimeType: "audio/mpeg", size: data.length, checksum });
+  await uploads.append(1, id, 0, data);
+  return id;
+}
+
+test("complete can be retried after queueing fails", async () => {
+  const id = await uploadAll();
+
+  await assert.rejects(
+    uploads.complete(1, id, async () => {
+      throw new Error("Queue unavailable");
+    }),
+    /Queue unavailable/,
+  );
+  assert.equal(uploads.get(1, id)?.offset, data.length);
+
+  const filePath = await uploads.complete(1, id, async (file) => {
+    assert.deepEqual(fs.readFileSync(file.filePath), data);
+    return file.filePath;
+  });
+  assert.equal(path.extname(filePath), ".mp3");
+  assert.equal(uploads.get(1, id), undefined);
+});
+
+test("complete forgets an upload whose file was rejected", async () => {
+  const id = await uploadAll();
+
+  await assert.rejects(
+    uploads.complete(1, id, async (file) => {
+      fs.unlinkSync(file.filePath);
+      throw new Error("Not a recording");
+    }),
+  );
+  assert.equal(uploads.get(1, id), undefined);
+});
+
+test("complete refuses an upload that is missing bytes", async () => {
+  const { id } = uploads.create(1, { filename: "talk.mp3", mimeType: "audio/mpeg", size: 10 });
+
+  await assert.rejects(
+    uploads.complete(1, id, async () => "queued"),
+    (error) => error instanceof UploadError && error.code === "INCOMPLETE",
+  );
+});
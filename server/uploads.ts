@@ -0,0 +1,249 @@
+import fs from "fs";
+import path from "path";
+import { createHash, randomUUID, type Hash } from "crypto";
+import type { CreateUpload, UploadStatus } from "@shared/schema";
+
+// Largest chunk accepted in one request
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Uploads nobody has touched for this long are deleted
+const UPLOAD_EXPIRY_MS = parseInt(process.env.UPLOAD_EXPIRY_MS || "86400000", 10) || 86400000;
+
+// How often expired uploads are looked for
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export type UploadErrorCode =
+  // No such upload for this user, or it expired
+  | "NOT_FOUND"
+  // The chunk does not start at the current offset
+  | "OFFSET_MISMATCH"
+  // A chunk or the assembled file does not match its checksum
+  | "CHECKSUM_MISMATCH"
+  // The chunk would take the file past its declared size
+  | "TOO_LARGE"
+  // Completed before every byte arrived
+  | "INCOMPLETE"
+  // Another request is already writing to this upload
+  | "BUSY";
+
+/**
+ * Rejected upload request, with the offset the client should continue from
+ */
+export class UploadError extends Error {
+  code: UploadErrorCode;
+  offset?: number;
+
+  constructor(code: UploadErrorCode, message: string, offset?: number) {
+    super(message);
+    this.name = "UploadError";
+    this.code = code;
+    this.offset = offset;
+  }
+}
+
+interface Upload {
+  id: string;
+  userId: number;
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum?: string;
+  filePath: string;
+  offset: number;
+  // Running SHA-256 of the bytes received so far
+  hash: Hash;
+  // Hex digest of the whole file, taken once every byte is in
+  digest?: string;
+  busy: boolean;
+  updatedAt: number;
+}
+
+/**
+ * A finished upload, checked and ready to be transcribed
+ */
+export interface CompletedUpload {
+  filePath: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Resumable uploads assembled on disk one chunk at a time
+ * Each chunk must start where the previous one ended, so a client that lost
+ * its connection asks for the offset and carries on from there. Uploads are
+ * kept in memory, so they do not survive a server restart.
+ */
+export class UploadManager {
+  private uploads: Map<string, Upload>;
+  private dir: string;
+
+  constructor(dir: string) {
+    this.uploads = new Map();
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  create(userId: number, details: CreateUpload): UploadStatus {
+    const id = randomUUID();
+    const upload: Upload = {
+      id,
+      userId,
+      filename: details.filename,
+      mimeType: details.mimeType,
+      size: details.size,
+      checksum: details.checksum?.toLowerCase(),
+      filePath: path.join(this.dir, `partial-${id}`),
+      offset: 0,
+      hash: createHash("sha256"),
+      busy: false,
+      updatedAt: Date.now(),
+    };
+
+    fs.writeFileSync(upload.filePath, "");
+    this.uploads.set(id, upload);
+    return this.status(upload);
+  }
+
+  /**
+   * Look up an upload, hiding uploads that belong to other users
+   */
+  get(userId: number, id: string): UploadStatus | undefined {
+    const upload = this.uploads.get(id);
+    return upload?.userId === userId ? this.status(upload) : undefined;
+  }
+
+  /**
+   * Append a chunk at the given offset
+   * @param checksum Base64 SHA-256 of the chunk, when the client sent one
+   * @returns The upload's new state
+   */
+  async append(userId: number, id: string, offset: number, chunk: Buffer, checksum?: string): Promise<UploadStatus> {
+    const upload = this.find(userId, id);
+
+    if (upload.busy) {
+      throw new UploadError("BUSY", "Another chunk is still being written", upload.offset);
+    }
+    if (offset !== upload.offset) {
+      throw new UploadError("OFFSET_MISMATCH", `Expected a chunk starting at byte ${upload.offset}`, upload.offset);
+    }
+    if (offset + chunk.length > upload.size) {
+      throw new UploadError("TOO_LARGE", "Chunk goes past the end of the file", upload.offset);
+    }
+    if (checksum && createHash("sha256").update(chunk).digest("base64") !== checksum) {
+      throw new UploadError("CHECKSUM_MISMATCH", "Chunk does not match its checksum", upload.offset);
+    }
+
+    upload.busy = true;
+    try {
+      await fs.promises.appendFile(upload.filePath, chunk);
+      upload.hash.update(chunk);
+      upload.offset += chunk.length;
+    } catch (error) {
+      // Drop whatever part of the chunk made it to disk so the offset stays true
+      await fs.promises.truncate(upload.filePath, upload.offset).catch(() => {});
+      throw error;
+    } finally {
+      upload.busy = false;
+      upload.updatedAt = Date.now();
+    }
+
+    return this.status(upload);
+  }
+
+  /**
+   * Check the assembled file and hand it to queue
+   * The upload is forgotten once queue resolves, and the caller owns the file.
+   * If queue fails the upload is kept so completing can be retried, unless
+   * queue deleted the file because it was rejected.
+   */
+  async complete<T>(userId: number, id: string, queue: (file: CompletedUpload) => Promise<T>): Promise<T> {
+    const upload = this.find(userId, id);
+
+    if (upload.busy) {
+      throw new UploadError("BUSY", "Another chunk is still being written", upload.offset);
+    }
+    if (upload.offset !== upload.size) {
+      throw new UploadError("INCOMPLETE", `Only ${upload.offset} of ${upload.size} bytes were received`, upload.offset);
+    }
+
+    // A hash can only be digested once, and a retried complete needs it again
+    upload.digest ??= upload.hash.digest("hex");
+    if (upload.checksum && upload.digest !== upload.checksum) {
+      // Appending more cannot fix it, so start over
+      this.remove(upload);
+      throw new UploadError("CHECKSUM_MISMATCH", "The uploaded file does not match its checksum. Please upload it again.");
+    }
+
+    // Keep the original extension, FFmpeg and Whisper both look at it
+    const filePath = path.join(this.dir, `${id}${path.extname(upload.filename)}`);
+    if (upload.filePath !== filePath) {
+      fs.renameSync(upload.filePath, filePath);
+      upload.filePath = filePath;
+    }
+
+    upload.busy = true;
+    try {
+      const result = await queue({ filePath, filename: upload.filename, mimeType: upload.mimeType, size: upload.size });
+      this.uploads.delete(id);
+      return result;
+    } catch (error) {
+      if (!fs.existsSync(filePath)) {
+        this.uploads.delete(id);
+      }
+      throw error;
+    } finally {
+      upload.busy = false;
+      upload.updatedAt = Date.now();
+    }
+  }
+
+  /**
+   * Abandon an upload and delete what was received
+   * @returns false when there was no such upload
+   */
+  cancel(userId: number, id: string): boolean {
+    const upload = this.uploads.get(id);
+    if (upload?.userId !== userId) return false;
+    this.remove(upload);
+    return true;
+  }
+
+  private find(userId: number, id: string): Upload {
+    const upload = this.uploads.get(id);
+    if (upload?.userId !== userId) {
+      throw new UploadError("NOT_FOUND", "Upload not found");
+    }
+    return upload;
+  }
+
+  private status(upload: Upload): UploadStatus {
+    return {
+      id: upload.id,
+      filename: upload.filename,
+      size: upload.size,
+      offset: upload.offset,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      expiresAt: new Date(upload.updatedAt + UPLOAD_EXPIRY_MS).toISOString(),
+    };
+  }
+
+  private remove(upload: Upload): void {
+    this.uploads.delete(upload.id);
+    fs.unlink(upload.filePath, (err) => {
+      if (err) console.error("Error removing upload:", err);
+    });
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - UPLOAD_EXPIRY_MS;
+    Array.from(this.uploads.values()).forEach((upload) => {
+      if (!upload.busy && upload.updatedAt < cutoff) {
+        this.remove(upload);
+      }
+    });
+  }
+}
+
+export const uploads = new UploadManager(path.join(process.cwd(), "tmp", "uploads"));
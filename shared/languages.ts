@@ -0,0 +1,89 @@
+// Languages supported by the Whisper API, keyed by ISO-639-1 code.
+// Whisper's verbose output reports the detected language by its English
+// name in lower case, so the names here match that spelling.
+export const supportedLanguages = [
+  { code: "af", name: "Afrikaans" },
+  { code: "ar", name: "Arabic" },
+  { code: "hy", name: "Armenian" },
+  { code: "az", name: "Azerbaijani" },
+  { code: "be", name: "Belarusian" },
+  { code: "bs", name: "Bosnian" },
+  { code: "bg", name: "Bulgarian" },
+  { code: "ca", name: "Catalan" },
+  { code: "zh", name: "Chinese" },
+  { code: "hr", name: "Croatian" },
+  { code: "cs", name: "Czech" },
+  { code: "da", name: "Danish" },
+  { code: "nl", name: "Dutch" },
+  { code: "en", name: "English" },
+  { code: "et", name: "Estonian" },
+  { code: "fi", name: "Finnish" },
+  { code: "fr", name: "French" },
+  { code: "gl", name: "Galician" },
+  { code: "de", name: "German" },
+  { code: "el", name: "Greek" },
+  { code: "he", name: "Hebrew" },
+  { code: "hi", name: "Hindi" },
+  { code: "hu", name: "Hungarian" },
+  { code: "is", name: "Icelandic" },
+  { code: "id", name: "Indonesian" },
+  { code: "it", name: "Italian" },
+  { code: "ja", name: "Japanese" },
+  { code: "kn", name: "Kannada" },
+  { code: "kk", name: "Kazakh" },
+  { code: "ko", name: "Korean" },
+  { code: "lv", name: "Latvian" },
+  { code: "lt", name: "Lithuanian" },
+  { code: "mk", name: "Macedonian" },
+  { code: "ms", name: "Malay" },
+  { code: "mr", name: "Marathi" },
+  { code: "mi", name: "Maori" },
+  { code: "ne", name: "Nepali" },
+  { code: "no", name: "Norwegian" },
+  { code: "fa", name: "Persian" },
+  { code: "pl", name: "Polish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "ro", name: "Romanian" },
+  { code: "ru", name: "Russian" },
+  { code: "sr", name: "Serbian" },
+  { code: "sk", name: "Slovak" },
+  { code: "sl", name: "Slovenian" },
+  { code: "es", name: "Spanish" },
+  { code: "sw", name: "Swahili" },
+  { code: "sv", name: "Swedish" },
+  { code: "tl", name: "Tagalog" },
+  { code: "ta", name: "Tamil" },
+  { code: "th", name: "Thai" },
+  { code: "tr", name: "Turkish" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "ur", name: "Urdu" },
+  { code: "vi", name: "Vietnamese" },
+  { code: "cy", name: "Welsh" },
+] as const;
+
+export type LanguageCode = (typeof supportedLanguages)[number]["code"];
+
+// Every code, typed as a non-empty tuple so it can back a z.enum
+export const languageCodes = supportedLanguages.map((lang) => lang.code) as [LanguageCode, ...LanguageCode[]];
+
+/**
+ * Turn a language as reported by Whisper ("english") or an ISO code ("en") into an ISO code
+ * @param language Language name or code
+ * @returns The ISO-639-1 code, or undefined if the language is not recognised
+ */
+export function toLanguageCode(language: string | undefined): LanguageCode | undefined {
+  if (!language) return undefined;
+
+  const needle = language.trim().toLowerCase();
+  const match = supportedLanguages.find(
+    (lang) => lang.code === needle || lang.name.toLowerCase() === needle,
+  );
+  return match?.code;
+}
+
+/**
+ * Human-readable name for an ISO-639-1 code, falling back to the code itself
+ */
+export function languageName(code: string): string {
+  return supportedLanguages.find((lang) => lang.code === code)?.name ?? code.toUpperCase();
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { languageCodes } from "./languages";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,20 +14,108 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the client gets to see of a user
+export type PublicUser = Pick<User, "id" | "username">;
 
 // Transcription related types and schemas
+// Times are in seconds from the start of the recording
+export const transcriptSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+  // Confidence signals reported by Whisper
+  avgLogProb: z.number().optional(),
+  noSpeechProb: z.number().optional(),
+  // "Speaker 1", "Speaker 2"... from diarization, or the name the user gave them
+  speaker: z.string().optional(),
+});
+
+export const transcriptWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type TranscriptWord = z.infer<typeof transcriptWordSchema>;
+
+// What ffprobe found in an upload, shown to the user before transcription starts
+export const mediaInfoSchema = z.object({
+  // Container format, e.g. "mp3" or "mov,mp4,m4a,3gp,3g2,mj2"
+  formatName: z.string(),
+  // Codec of the audio stream, e.g. "aac" or "opus"
+  codec: z.string(),
+  // Hz
+  sampleRate: z.number().optional(),
+  channels: z.number().int().optional(),
+  // Bits per second of the audio stream, or of the whole file when the stream doesn't say
+  bitRate: z.number().optional(),
+  // Seconds
+  duration: z.number(),
+  hasVideo: z.boolean(),
+});
+
+export type MediaInfo = z.infer<typeof mediaInfoSchema>;
+
+// "translate" turns speech in any language into English text
+export const transcriptionModes = ["transcribe", "translate"] as const;
+
+export type TranscriptionMode = (typeof transcriptionModes)[number];
+
+// Chosen on the upload form
+export const transcriptionOptionsSchema = z.object({
+  // ISO-639-1 code of the spoken language; detected automatically when left out
+  language: z.enum(languageCodes).optional(),
+  mode: z.enum(transcriptionModes).default("transcribe"),
+  // What the recording is about, e.g. speakers' names or the meeting topic,
+  // to help the transcriber with names and jargon
+  prompt: z.string().trim().max(500).optional(),
+});
+
+export type TranscriptionOptions = z.infer<typeof transcriptionOptionsSchema>;
+
+// Auto-detect the language and transcribe it as spoken
+export const defaultTranscriptionOptions: TranscriptionOptions = transcriptionOptionsSchema.parse({});
+
 export const transcriptionSchema = z.object({
+  // Plain text of the whole recording, kept alongside segments for older clients
   text: z.string(),
   duration: z.number().optional(),
+  // ISO-639-1 code of the spoken language, as chosen or detected. Translations
+  // only know it when it was chosen, since Whisper reports the output language
+  language: z.string().optional(),
+  mode: z.enum(transcriptionModes).optional(),
+  segments: z.array(transcriptSegmentSchema).optional(),
+  words: z.array(transcriptWordSchema).optional(),
   filename: z.string().optional(),
   wasCompressed: z.boolean().optional(),
+  chunkCount: z.number().int().positive().optional(),
+  media: mediaInfoSchema.optional(),
+  // Set once the transcription has been saved
+  transcriptId: z.number().int().positive().optional(),
 });
 
 export type Transcription = z.infer<typeof transcriptionSchema>;
 
 // Summary related types and schemas
+// Summaries come in several shapes; see summaryTemplates.ts
+export const summaryTemplateIds = ["general", "meeting", "interview", "lecture", "podcast"] as const;
+
+export type SummaryTemplateId = (typeof summaryTemplateIds)[number];
+
+// Template a saved summary was made with: a built-in one, or "custom" for one
+// of the user's own templates
+export const savedSummaryTemplates = [...summaryTemplateIds, "custom"] as const;
+
+export type SavedSummaryTemplate = (typeof savedSummaryTemplates)[number];
+
 export const topicSchema = z.object({
   topic: z.string(),
   description: z.string()
@@ -35,15 +124,467 @@ export const topicSchema = z.object({
 export const summarySchema = z.object({
   keyPoints: z.array(z.string()),
   topics: z.array(topicSchema),
-  actionItems: z.array(z.string()).optional()
+  actionItems: z.array(z.string()).optional(),
+  // Parts a long transcript was split into and summarized separately before merging
+  chunkCount: z.number().int().positive().optional()
 });
 
 export type Summary = z.infer<typeof summarySchema>;
 
-export const audioFileSchema = z.object({
-  filename: z.string(),
-  size: z.number(),
-  mimeType: z.string().regex(/^audio\/(mpeg|wav|mp4|x-m4a)$/),
+// Saved transcripts and their summaries
+export const transcripts = pgTable("transcripts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  filename: text("filename").notNull(),
+  text: text("text").notNull(),
+  duration: real("duration"),
+  // ISO-639-1 code, when known
+  language: text("language"),
+  mode: text("mode").$type<TranscriptionMode>().notNull().default("transcribe"),
+  segments: jsonb("segments").$type<TranscriptSegment[]>(),
+  words: jsonb("words").$type<TranscriptWord[]>(),
+  wasCompressed: boolean("was_compressed").notNull().default(false),
+  chunkCount: integer("chunk_count").notNull().default(1),
+  media: jsonb("media").$type<MediaInfo>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTranscriptSchema = createInsertSchema(transcripts, {
+  segments: z.array(transcriptSegmentSchema).nullish(),
+  words: z.array(transcriptWordSchema).nullish(),
+  media: mediaInfoSchema.nullish(),
+  mode: z.enum(transcriptionModes).optional(),
+}).pick({
+  userId: true,
+  title: true,
+  filename: true,
+  text: true,
+  duration: true,
+  language: true,
+  mode: true,
+  segments: true,
+  words: true,
+  wasCompressed: true,
+  chunkCount: true,
+  media: true,
+});
+
+export const updateTranscriptSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
 });
 
+export const listTranscriptsQuerySchema = z.object({
+  // Matched against filename, title and transcript text
+  search: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(100).default(10),
+});
+
+export type InsertTranscript = z.infer<typeof insertTranscriptSchema>;
+// Renames a speaker on every segment of a transcript
+export const renameSpeakerSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export type UpdateTranscript = z.infer<typeof updateTranscriptSchema>;
+export type RenameSpeaker = z.infer<typeof renameSpeakerSchema>;
+export type ListTranscriptsQuery = z.infer<typeof listTranscriptsQuerySchema>;
+export type Transcript = typeof transcripts.$inferSelect;
+
+// Listing rows leave out the full text and timings
+export type TranscriptListItem = Omit<Transcript, "text" | "segments" | "words"> & { hasSummary: boolean };
+
+export interface TranscriptPage {
+  items: TranscriptListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const summaries = pgTable("summaries", {
+  id: serial("id").primaryKey(),
+  // One summary per transcript; regenerating replaces it
+  transcriptId: integer("transcript_id")
+    .notNull()
+    .unique()
+    .references(() => transcripts.id, { onDelete: "cascade" }),
+  keyPoints: jsonb("key_points").$type<string[]>().notNull(),
+  topics: jsonb("topics").$type<{ topic: string; description: string }[]>().notNull(),
+  actionItems: jsonb("action_items").$type<string[]>(),
+  chunkCount: integer("chunk_count").notNull().default(1),
+  template: text("template").$type<SavedSummaryTemplate>().notNull().default("general"),
+  // Fields of templates other than "general", which use the columns above
+  content: jsonb("content").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSummaryRecordSchema = createInsertSchema(summaries, {
+  keyPoints: z.array(z.string()),
+  topics: z.array(topicSchema),
+  actionItems: z.array(z.string()).nullish(),
+  template: z.enum(savedSummaryTemplates).optional(),
+}).pick({
+  transcriptId: true,
+  keyPoints: true,
+  topics: true,
+  actionItems: true,
+  chunkCount: true,
+  template: true,
+  content: true,
+});
+
+export type InsertSummaryRecord = z.infer<typeof insertSummaryRecordSchema>;
+export type SummaryRecord = typeof summaries.$inferSelect;
+
+export type TranscriptWithSummary = Transcript & { summary: SummaryRecord | null };
+
+// Part of a transcript an answer is based on. Times are in seconds and only
+// known when the transcript has segments
+export const citationSchema = z.object({
+  start: z.number().optional(),
+  end: z.number().optional(),
+  speaker: z.string().optional(),
+  text: z.string(),
+});
+
+export type Citation = z.infer<typeof citationSchema>;
+
+// Questions asked about a transcript and their answers, kept in order as a conversation
+export const transcriptQuestions = pgTable("transcript_questions", {
+  id: serial("id").primaryKey(),
+  transcriptId: integer("transcript_id")
+    .notNull()
+    .references(() => transcripts.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  citations: jsonb("citations").$type<Citation[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTranscriptQuestionSchema = createInsertSchema(transcriptQuestions, {
+  citations: z.array(citationSchema),
+}).pick({
+  transcriptId: true,
+  question: true,
+  answer: true,
+  citations: true,
+});
+
+export const askQuestionSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(1000),
+});
+
+export type InsertTranscriptQuestion = z.infer<typeof insertTranscriptQuestionSchema>;
+export type AskQuestion = z.infer<typeof askQuestionSchema>;
+export type TranscriptQuestion = typeof transcriptQuestions.$inferSelect;
+
+// Words the transcriber keeps getting wrong, kept per user. Terms are given to
+// the transcriber as a prompt and fixed in the text wherever an alias was heard instead
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Correct spelling, e.g. "Kubernetes"
+  term: text("term").notNull(),
+  // What it comes out as instead, e.g. "cooper netties"
+  aliases: jsonb("aliases").$type<string[]>().notNull(),
+  // Only replace aliases written in exactly this case. Otherwise aliases match
+  // in any case and the term itself is corrected to its own casing too
+  caseSensitive: boolean("case_sensitive").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms, {
+  term: z.string().trim().min(1, "Term is required").max(100),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(20, "A term can have at most 20 aliases"),
+}).pick({
+  term: true,
+  aliases: true,
+  caseSensitive: true,
+});
+
+export const updateGlossaryTermSchema = insertGlossaryTermSchema
+  .partial()
+  .refine((updates) => Object.keys(updates).length > 0, { message: "Nothing to update" });
+
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+export type UpdateGlossaryTerm = z.infer<typeof updateGlossaryTermSchema>;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+
+// Output fields of a custom summary template. The field name is both the key
+// in the summary's JSON and its heading when shown
+export const summaryFieldTypes = ["string", "stringList", "objectList"] as const;
+
+export type SummaryFieldType = (typeof summaryFieldTypes)[number];
+
+export const summaryFieldSchema = z
+  .object({
+    name: z.string().trim().min(1, "Field name is required").max(60),
+    type: z.enum(summaryFieldTypes),
+    // What the field should contain, passed on to the summarizer
+    description: z.string().trim().max(300).optional(),
+    // Names of the text properties each item has, for objectList fields
+    properties: z.array(z.string().trim().min(1).max(40)).max(8).optional(),
+  })
+  .refine((field) => field.type !== "objectList" || (field.properties?.length ?? 0) > 0, {
+    message: "List of objects fields need at least one property",
+    path: ["properties"],
+  });
+
+export type SummaryField = z.infer<typeof summaryFieldSchema>;
+
+// Summary templates written by a user, in addition to the built-in ones
+export const customSummaryTemplates = pgTable("custom_summary_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // What to focus on and how to write it, given to the summarizer
+  instructions: text("instructions").notNull(),
+  fields: jsonb("fields").$type<SummaryField[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCustomSummaryTemplateSchema = createInsertSchema(customSummaryTemplates, {
+  name: z.string().trim().min(1, "Name is required").max(80),
+  instructions: z.string().trim().max(2000),
+  fields: z
+    .array(summaryFieldSchema)
+    .min(1, "A template needs at least one field")
+    .max(20, "A template can have at most 20 fields")
+    .refine(
+      (fields) => new Set(fields.map((field) => field.name.toLowerCase())).size === fields.length,
+      "Field names must be unique",
+    ),
+}).pick({
+  name: true,
+  instructions: true,
+  fields: true,
+});
+
+export const updateCustomSummaryTemplateSchema = insertCustomSummaryTemplateSchema
+  .partial()
+  .refine((updates) => Object.keys(updates).length > 0, { message: "Nothing to update" });
+
+export type InsertCustomSummaryTemplate = z.infer<typeof insertCustomSummaryTemplateSchema>;
+export type UpdateCustomSummaryTemplate = z.infer<typeof updateCustomSummaryTemplateSchema>;
+export type CustomSummaryTemplate = typeof customSummaryTemplates.$inferSelect;
+
+// Upload formats accepted by both the client and the server. Browsers and
+// operating systems disagree on MIME types, so each format lists the ones seen
+// in practice, and the extension is used when the MIME type is missing or generic.
+export const supportedFormats = [
+  { label: "MP3", extensions: [".mp3", ".mpga"], mimeTypes: ["audio/mpeg", "audio/mp3", "audio/mpga"] },
+  { label: "WAV", extensions: [".wav"], mimeTypes: ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"] },
+  { label: "M4A", extensions: [".m4a"], mimeTypes: ["audio/mp4", "audio/x-m4a", "audio/m4a"] },
+  { label: "OGG", extensions: [".ogg", ".oga"], mimeTypes: ["audio/ogg", "application/ogg"] },
+  { label: "Opus", extensions: [".opus"], mimeTypes: ["audio/opus"] },
+  { label: "FLAC", extensions: [".flac"], mimeTypes: ["audio/flac", "audio/x-flac"] },
+  { label: "AAC", extensions: [".aac"], mimeTypes: ["audio/aac", "audio/x-aac", "audio/aacp"] },
+  { label: "WebM", extensions: [".webm"], mimeTypes: ["audio/webm", "video/webm"] },
+  { label: "MP4", extensions: [".mp4"], mimeTypes: ["video/mp4"] },
+  { label: "MOV", extensions: [".mov"], mimeTypes: ["video/quicktime"] },
+] as const;
+
+export type SupportedFormat = (typeof supportedFormats)[number];
+
+// MIME types that say nothing about the content, so the extension decides
+const genericMimeTypes = ["", "application/octet-stream", "binary/octet-stream"];
+
+/**
+ * Find the supported format of an upload from its MIME type, falling back to the extension
+ * @param filename Name of the file as chosen by the user
+ * @param mimeType MIME type reported by the browser or multer
+ * @returns The matching format, or undefined if the file type is not supported
+ */
+export function findSupportedFormat(filename: string, mimeType: string): SupportedFormat | undefined {
+  const type = mimeType.toLowerCase().split(";")[0].trim();
+  const dot = filename.lastIndexOf(".");
+  const extension = dot >= 0 ? filename.slice(dot).toLowerCase() : "";
+  const byExtension = supportedFormats.find((format) => (format.extensions as readonly string[]).includes(extension));
+
+  if (genericMimeTypes.includes(type)) {
+    return byExtension;
+  }
+  // audio/mp4 covers M4A and MP4 audio alike, so prefer the extension when it agrees
+  if (byExtension && (byExtension.mimeTypes as readonly string[]).includes(type)) {
+    return byExtension;
+  }
+  return supportedFormats.find((format) => (format.mimeTypes as readonly string[]).includes(type));
+}
+
+// "MP3, WAV, M4A, ... and MOV" for messages and hints
+export const supportedFormatLabels = supportedFormats
+  .map((format) => format.label)
+  .join(", ")
+  .replace(/, ([^,]+)$/, " and $1");
+
+// Value for the accept attribute of file inputs
+export const supportedFormatAccept = supportedFormats
+  .flatMap((format) => [...format.extensions, ...format.mimeTypes])
+  .join(",");
+
+export const unsupportedFormatMessage = `Invalid file type. Supported formats are ${supportedFormatLabels}.`;
+
+export const audioFileSchema = z
+  .object({
+    filename: z.string(),
+    size: z.number(),
+    mimeType: z.string(),
+  })
+  .refine((file) => findSupportedFormat(file.filename, file.mimeType) !== undefined, {
+    message: unsupportedFormatMessage,
+    path: ["mimeType"],
+  });
+
 export type AudioFile = z.infer<typeof audioFileSchema>;
+
+// Largest file accepted, whether sent in one request or as a resumable upload
+export const maxUploadSize = 100 * 1024 * 1024;
+
+// Resumable uploads: create one, append chunks at the current offset, then
+// complete it to queue the transcription
+export const createUploadSchema = z
+  .object({
+    filename: z.string().trim().min(1).max(255),
+    mimeType: z.string(),
+    size: z.number().int().positive().max(maxUploadSize, "File size exceeds the 100MB limit"),
+    // Hex SHA-256 of the whole file, checked when the upload is completed
+    checksum: z.string().regex(/^[a-f0-9]{64}$/i).optional(),
+  })
+  .refine((upload) => findSupportedFormat(upload.filename, upload.mimeType) !== undefined, {
+    message: unsupportedFormatMessage,
+    path: ["mimeType"],
+  });
+
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+
+export const completeUploadSchema = transcriptionOptionsSchema.extend({
+  // Generate the summary as part of the job
+  summarize: z.boolean().optional(),
+});
+
+export type CompleteUpload = z.infer<typeof completeUploadSchema>;
+
+export interface UploadStatus {
+  id: string;
+  filename: string;
+  size: number;
+  // Bytes received so far; the next chunk must start here
+  offset: number;
+  // Largest chunk the server accepts in one request
+  chunkSize: number;
+  expiresAt: string;
+}
+
+// Failures of the upstream AI provider, so clients can explain what to do next
+export const upstreamErrorCodes = [
+  // Too many requests; retry after a while
+  "UPSTREAM_RATE_LIMITED",
+  // The provider is down, timing out or the circuit breaker is open
+  "UPSTREAM_UNAVAILABLE",
+  // The provider refused the request itself, retrying will not help
+  "UPSTREAM_REJECTED",
+] as const;
+
+export type UpstreamErrorCode = (typeof upstreamErrorCodes)[number];
+
+// Live transcription over the /api/live WebSocket. Audio travels as binary
+// frames; control messages and results are JSON.
+export const liveClientMessageSchema = z.discriminatedUnion("type", [
+  // Sent once before any audio; the filename becomes the saved transcript's name
+  transcriptionOptionsSchema.extend({ type: z.literal("start"), filename: z.string().trim().min(1).max(200) }),
+  // No more audio is coming; transcribe the rest and save
+  z.object({ type: z.literal("stop") }),
+]);
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+export type LiveServerMessage =
+  | { type: "ready" }
+  // Text of the audio after the last final segment; it may still change
+  | { type: "partial"; text: string }
+  // Segments that will not change any more, with times from the start of the recording
+  | { type: "final"; segments: TranscriptSegment[] }
+  | { type: "saved"; transcriptId: number }
+  // Fatal errors end the session; others, like a rate-limited pass, are retried with the next pass
+  | { type: "error"; message: string; code?: UpstreamErrorCode; fatal: boolean };
+
+// Asynchronous transcription job types and schemas
+export const jobStatuses = [
+  "queued",
+  "extracting",
+  "compressing",
+  "transcribing",
+  "diarizing",
+  "summarizing",
+  "done",
+  "failed",
+] as const;
+
+export const jobStatusSchema = z.enum(jobStatuses);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+// Stage events pushed to clients while a job runs
+export const jobEventTypes = [
+  "upload_received",
+  "extraction_started",
+  "extraction_finished",
+  "compression_started",
+  "compression_finished",
+  "transcription_started",
+  "chunk_transcribed",
+  "transcription_finished",
+  "diarization_started",
+  "diarization_finished",
+  "summary_started",
+  "summary_generated",
+  "stalled",
+  "failed",
+  "done",
+] as const;
+
+export const jobEventSchema = z.object({
+  type: z.enum(jobEventTypes),
+  at: z.string(),
+  message: z.string(),
+  // Overall job progress (0-100) once this event happened
+  progress: z.number().min(0).max(100),
+  originalSize: z.number().optional(),
+  compressedSize: z.number().optional(),
+  chunk: z.number().int().positive().optional(),
+  totalChunks: z.number().int().positive().optional(),
+  // Set on failed events caused by the upstream provider
+  code: z.enum(upstreamErrorCodes).optional(),
+});
+
+export type JobEventType = z.infer<typeof jobEventSchema>["type"];
+export type JobEvent = z.infer<typeof jobEventSchema>;
+
+export const transcriptionJobSchema = z.object({
+  id: z.string(),
+  userId: z.number().int(),
+  status: jobStatusSchema,
+  filename: z.string(),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  // Milliseconds spent in each stage the job has left
+  timings: z.record(z.number()),
+  progress: z.number().min(0).max(100),
+  events: z.array(jobEventSchema),
+  result: transcriptionSchema.optional(),
+  summary: summarySchema.optional(),
+  error: z.string().optional(),
+  errorCode: z.enum(upstreamErrorCodes).optional(),
+});
+
+export type TranscriptionJob = z.infer<typeof transcriptionJobSchema>;
@@ -0,0 +1,41 @@
+import type { TranscriptSegment } from "./schema";
+
+// Only the text and speaker matter here
+type SpokenText = Pick<TranscriptSegment, "text" | "speaker">;
+
+/**
+ * Speakers of a transcript in the order they first speak
+ */
+export function speakersOf(segments: SpokenText[] | null | undefined): string[] {
+  const speakers: string[] = [];
+  for (const segment of segments || []) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+}
+
+/**
+ * Transcript text with a "Speaker: " paragraph for each turn
+ * Falls back to the plain text when the segments carry no speakers
+ * @param text The transcript's plain text
+ * @param segments Timestamped segments, labelled by diarization
+ */
+export function speakerLabelledText(text: string, segments: SpokenText[] | null | undefined): string {
+  if (speakersOf(segments).length === 0) return text;
+
+  const turns: { speaker?: string; text: string[] }[] = [];
+  for (const segment of segments!) {
+    const current = turns[turns.length - 1];
+    if (current && current.speaker === segment.speaker) {
+      current.text.push(segment.text);
+    } else {
+      turns.push({ speaker: segment.speaker, text: [segment.text] });
+    }
+  }
+
+  return turns
+    .map((turn) => (turn.speaker ? `${turn.speaker}: ` : "") + turn.text.join(" "))
+    .join("\n\n");
+}
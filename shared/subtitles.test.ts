@@ -0,0 +1,16 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { toSrt, toVtt } from "./subtitles";
+
+const cues = [{ start: 0, end: 2.5, lines: ["R&D said <laughs>", "a > b"], speaker: "Priya <host>" }];
+
+test("toVtt escapes markup characters in cue text", () => {
+  assert.equal(
+    toVtt(cues),
+    "WEBVTT\n\n00:00:00.000 --> 00:00:02.500\n<v Priya host>R&amp;D said &lt;laughs&gt;\na &gt; b\n",
+  );
+});
+
+test("toSrt keeps cue text as it is", () => {
+  assert.match(toSrt(cues), /R&D said <laughs>\na > b/);
+});
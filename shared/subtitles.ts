@@ -0,0 +1,218 @@
+import { z } from "zod";
+import type { TranscriptSegment, TranscriptWord } from "./schema";
+
+export const subtitleFormats = ["srt", "vtt"] as const;
+
+export type SubtitleFormat = (typeof subtitleFormats)[number];
+
+export const subtitleOptionsSchema = z.object({
+  // Characters per line before wrapping
+  maxLineLength: z.coerce.number().int().min(10).max(200).default(42),
+  // Characters per cue across all of its lines
+  maxCharsPerCue: z.coerce.number().int().min(10).max(500).default(84),
+  // Seconds a single cue may stay on screen
+  maxCueDuration: z.coerce.number().min(1).max(60).default(7),
+});
+
+export type SubtitleOptions = z.infer<typeof subtitleOptionsSchema>;
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+}
+
+const defaultOptions: SubtitleOptions = subtitleOptionsSchema.parse({});
+
+// Word with timings, either from Whisper or estimated from the segment
+type TimedWord = TranscriptWord;
+
+/**
+ * Words inside a segment with their timings
+ * Uses Whisper's word timings when they cover the segment, otherwise spreads
+ * the segment's time across its words in proportion to their length
+ */
+function wordsForSegment(segment: TranscriptSegment, words: TranscriptWord[]): TimedWord[] {
+  const timed = words.filter(
+    (word) => word.start >= segment.start - 0.01 && word.end <= segment.end + 0.01,
+  );
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+
+  if (timed.length > 0 && timed.length === tokens.length) {
+    // Whisper's words drop punctuation, so keep the segment's spelling
+    return timed.map((word, i) => ({ ...word, word: tokens[i] }));
+  }
+
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0) || 1;
+  const span = segment.end - segment.start;
+  let cursor = segment.start;
+
+  return tokens.map((token) => {
+    const start = cursor;
+    cursor += (span * token.length) / totalChars;
+    return { word: token, start, end: cursor };
+  });
+}
+
+/**
+ * Greedily wrap text into lines no longer than maxLineLength
+ * A single word longer than the limit gets a line of its own
+ */
+function wrapLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxLineLength) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Break transcript segments into subtitle cues that respect the length and duration limits
+ * @param segments Timestamped segments of the transcript
+ * @param words Optional word timings used to place cue boundaries inside long segments
+ * @param options Line length, characters per cue and cue duration limits
+ * @returns Cues in playback order
+ */
+export function buildCues(
+  segments: TranscriptSegment[],
+  words: TranscriptWord[] = [],
+  options: Partial<SubtitleOptions> = {},
+): SubtitleCue[] {
+  const { maxLineLength, maxCharsPerCue, maxCueDuration } = { ...defaultOptions, ...options };
+  const maxLines = Math.max(1, Math.ceil(maxCharsPerCue / maxLineLength));
+  const cues: SubtitleCue[] = [];
+
+  const fitsInCue = (text: string, duration: number) =>
+    text.length <= maxCharsPerCue &&
+    duration <= maxCueDuration &&
+    wrapLines(text, maxLineLength).length <= maxLines;
+
+  const pushCue = (cueWords: TimedWord[], speaker?: string) => {
+    if (cueWords.length === 0) return;
+    const text = cueWords.map((word) => word.word).join(" ");
+    cues.push({
+      start: cueWords[0].start,
+      end: cueWords[cueWords.length - 1].end,
+      lines: wrapLines(text, maxLineLength),
+      speaker,
+    });
+  };
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    if (fitsInCue(text, segment.end - segment.start)) {
+      cues.push({ start: segment.start, end: segment.end, lines: wrapLines(text, maxLineLength), speaker: segment.speaker });
+      continue;
+    }
+
+    // Too long for one cue: fill cues word by word until a limit would be exceeded
+    let current: TimedWord[] = [];
+    for (const word of wordsForSegment(segment, words)) {
+      if (current.length > 0) {
+        const candidate = [...current, word].map((w) => w.word).join(" ");
+        if (!fitsInCue(candidate, word.end - current[0].start)) {
+          pushCue(current, segment.speaker);
+          current = [];
+        }
+      }
+      current.push(word);
+    }
+    pushCue(current, segment.speaker);
+  }
+
+  return cues;
+}
+
+// 3725.5 -> "01:02:05,500" (SRT) or "01:02:05.500" (WebVTT)
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Render cues as a SubRip (.srt) file
+ * SRT has no speaker markup, so the speaker's name starts the first cue of each turn
+ */
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => {
+      const lines = [...cue.lines];
+      if (cue.speaker && cue.speaker !== cues[index - 1]?.speaker) {
+        lines[0] = `${cue.speaker}: ${lines[0]}`;
+      }
+      return [
+        String(index + 1),
+        `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}`,
+        ...lines,
+      ].join("\n");
+    })
+    .join("\n\n") + "\n";
+}
+
+// Voice tags end at the first ">" and may not contain "&" or "<"
+function voiceTag(speaker: string): string {
+  return `<v ${speaker.replace(/[&<>]/g, "")}>`;
+}
+
+// Cue text is read as markup, so "R&D" or "<laughs>" must be written as entities
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Render cues as a WebVTT (.vtt) file
+ * Speakers are marked with voice tags, which players can show or style
+ */
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => {
+      const escaped = cue.lines.map(escapeCueText);
+      const lines = cue.speaker ? [voiceTag(cue.speaker) + escaped[0], ...escaped.slice(1)] : escaped;
+      return [`${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}`, ...lines].join("\n");
+    })
+    .join("\n\n");
+
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Build a subtitle file from transcript segments
+ * @param format "srt" or "vtt"
+ * @param segments Timestamped segments of the transcript
+ * @param words Optional word timings
+ * @param options Line length, characters per cue and cue duration limits
+ */
+export function formatSubtitles(
+  format: SubtitleFormat,
+  segments: TranscriptSegment[],
+  words: TranscriptWord[] = [],
+  options: Partial<SubtitleOptions> = {},
+): string {
+  const cues = buildCues(segments, words, options);
+  return format === "srt" ? toSrt(cues) : toVtt(cues);
+}
+
+export const subtitleMimeTypes: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
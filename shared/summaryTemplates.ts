@@ -0,0 +1,215 @@
+import { z } from "zod";
+import {
+  summaryFieldSchema,
+  summarySchema,
+  summaryTemplateIds,
+  type InsertSummaryRecord,
+  type SavedSummaryTemplate,
+  type SummaryRecord,
+  type SummaryTemplateId,
+  type UpstreamErrorCode,
+} from "./schema";
+
+export { summaryTemplateIds, type SummaryTemplateId };
+
+export interface SummaryTemplateInfo {
+  id: SummaryTemplateId;
+  name: string;
+  description: string;
+}
+
+// In the order they are offered in the template picker
+export const summaryTemplates: SummaryTemplateInfo[] = [
+  { id: "general", name: "General summary", description: "Key points, topics and action items" },
+  { id: "meeting", name: "Meeting minutes", description: "Attendees, decisions, and action items with owners and deadlines" },
+  { id: "interview", name: "Interview", description: "The questions asked and the answers given" },
+  { id: "lecture", name: "Lecture notes", description: "Concepts explained, definitions and review questions" },
+  { id: "podcast", name: "Podcast show notes", description: "Episode summary, guests, chapters and quotes" },
+];
+
+// Models leave out fields they have nothing for, so every field has a default
+
+export const meetingMinutesSchema = z.object({
+  overview: z.string().default(""),
+  attendees: z.array(z.string()).default([]),
+  decisions: z.array(z.string()).default([]),
+  actionItems: z
+    .array(
+      z.object({
+        task: z.string(),
+        owner: z.string().nullish(),
+        deadline: z.string().nullish(),
+      }),
+    )
+    .default([]),
+});
+
+export const interviewSchema = z.object({
+  overview: z.string().default(""),
+  participants: z.array(z.string()).default([]),
+  qa: z.array(z.object({ question: z.string(), answer: z.string() })).default([]),
+  highlights: z.array(z.string()).default([]),
+});
+
+export const lectureNotesSchema = z.object({
+  overview: z.string().default(""),
+  concepts: z.array(z.object({ name: z.string(), explanation: z.string() })).default([]),
+  definitions: z.array(z.object({ term: z.string(), definition: z.string() })).default([]),
+  reviewQuestions: z.array(z.string()).default([]),
+});
+
+export const showNotesSchema = z.object({
+  headline: z.string().default(""),
+  episodeSummary: z.string().default(""),
+  guests: z.array(z.string()).default([]),
+  chapters: z.array(z.object({ title: z.string(), summary: z.string() })).default([]),
+  quotes: z.array(z.string()).default([]),
+  mentions: z.array(z.string()).default([]),
+});
+
+// What each template's summary contains, without the template name
+export const summaryContentSchemas = {
+  general: summarySchema,
+  meeting: meetingMinutesSchema,
+  interview: interviewSchema,
+  lecture: lectureNotesSchema,
+  podcast: showNotesSchema,
+} satisfies Record<SummaryTemplateId, z.ZodTypeAny>;
+
+export type SummaryContent<T extends SummaryTemplateId = SummaryTemplateId> = z.infer<(typeof summaryContentSchemas)[T]>;
+
+// What a custom template's summary contains, keyed by field name. Its shape
+// comes from the template's fields, so it is only known at runtime
+export type CustomSummaryValues = Record<string, unknown>;
+
+// Parts the transcript was summarized in, as for summarySchema
+const chunkCount = z.number().int().positive().optional();
+
+/**
+ * A summary made with one of the user's own templates
+ * The template's name and fields are kept with it so it can still be shown
+ * after the template is edited or deleted
+ */
+export const customSummarySchema = z.object({
+  template: z.literal("custom"),
+  templateId: z.number().int().positive(),
+  name: z.string(),
+  fields: z.array(summaryFieldSchema),
+  values: z.record(z.unknown()),
+  chunkCount,
+});
+
+export type CustomSummary = z.infer<typeof customSummarySchema>;
+
+/**
+ * A summary made with any template, tagged with the template's id
+ */
+export const templatedSummarySchema = z.discriminatedUnion("template", [
+  summarySchema.extend({ template: z.literal("general") }),
+  meetingMinutesSchema.extend({ template: z.literal("meeting"), chunkCount }),
+  interviewSchema.extend({ template: z.literal("interview"), chunkCount }),
+  lectureNotesSchema.extend({ template: z.literal("lecture"), chunkCount }),
+  showNotesSchema.extend({ template: z.literal("podcast"), chunkCount }),
+  customSummarySchema,
+]);
+
+export type TemplatedSummary = z.infer<typeof templatedSummarySchema>;
+
+/**
+ * Columns to save for a summary
+ * General summaries keep using their own columns; other templates go in `content`,
+ * custom ones along with the template they were made with
+ */
+export function toSummaryRecord(
+  summary: TemplatedSummary,
+  transcriptId: number,
+): InsertSummaryRecord {
+  if (summary.template === "general") {
+    const { template, chunkCount, keyPoints, topics, actionItems } = summary;
+    return { transcriptId, template, chunkCount, keyPoints, topics, actionItems, content: null };
+  }
+
+  const { template, chunkCount, ...content } = summary;
+  return { transcriptId, template, chunkCount, keyPoints: [], topics: [], content };
+}
+
+/**
+ * Read a saved summary back into the shape the API returns
+ */
+export function fromSummaryRecord(record: SummaryRecord): TemplatedSummary {
+  if (record.template === "general" || !record.content) {
+    return {
+      template: "general",
+      keyPoints: record.keyPoints,
+      topics: record.topics,
+      actionItems: record.actionItems ?? undefined,
+      chunkCount: record.chunkCount,
+    };
+  }
+
+  return templatedSummarySchema.parse({ ...record.content, template: record.template, chunkCount: record.chunkCount });
+}
+
+// Sent first in a streamed summary, once the transcript has been split into parts
+export interface SummaryStreamStart {
+  type: "start";
+  template: SavedSummaryTemplate;
+  chunkCount: number;
+  // The template a custom summary is being written with
+  custom?: Pick<CustomSummary, "templateId" | "name" | "fields">;
+}
+
+// Events of POST /api/summarize when the client asks for text/event-stream
+export type SummaryStreamEvent =
+  | SummaryStreamStart
+  // Parts of a long transcript summarized so far, before they are merged
+  | { type: "progress"; completed: number; total: number }
+  // More of the final summary's JSON. `reset` replaces everything sent so far,
+  // which happens when a failed request is retried
+  | { type: "text"; text: string; reset?: boolean }
+  | { type: "done"; summary: TemplatedSummary }
+  | { type: "error"; message: string; code?: UpstreamErrorCode; retryAfter?: number };
+
+// Strip defaults and optional wrappers off a field's schema
+function innerSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  while (schema instanceof z.ZodDefault || schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    schema = schema._def.innerType;
+  }
+  return schema;
+}
+
+/**
+ * Turn a summary's JSON parsed so far into a summary that can be shown
+ * List items are kept once they have every required property, so a topic
+ * appears when its description starts. Fields that don't fit yet are left out.
+ * @param start The stream's start event
+ * @param value The partially written JSON, as far as it parses
+ * @returns The summary so far, or null if nothing can be shown yet
+ */
+export function partialSummary(start: SummaryStreamStart, value: unknown): TemplatedSummary | null {
+  const fields = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const { template, chunkCount } = start;
+
+  if (template === "custom") {
+    return start.custom ? { template, ...start.custom, values: fields, chunkCount } : null;
+  }
+
+  const content: Record<string, unknown> = {};
+  for (const [key, fieldSchema] of Object.entries(summaryContentSchemas[template].shape)) {
+    const inner = innerSchema(fieldSchema as z.ZodTypeAny);
+    const field = fields[key];
+    if (inner instanceof z.ZodArray) {
+      const items = Array.isArray(field) ? field : [];
+      content[key] = items.filter((item) => inner.element.safeParse(item).success);
+    } else if (inner.safeParse(field).success) {
+      content[key] = field;
+    }
+  }
+
+  const summary = templatedSummarySchema.safeParse({ ...content, template, chunkCount });
+  return summary.success ? summary.data : null;
+}
+
+export function summaryTemplateName(id: SummaryTemplateId): string {
+  return summaryTemplates.find((template) => template.id === id)?.name ?? id;
+}